@@ -1,7 +1,9 @@
-import type { App, TAbstractFile, TFile, TFolder } from 'obsidian';
+import type { App, TAbstractFile, TFolder } from 'obsidian';
 import { derived, get, writable } from 'svelte/store';
 import type MealPlugin from './main.ts';
-import { GetRecipe, GetRecipes, type Recipe } from './recipe/recipe.ts';
+import { LoadMealHistory, type RecipeHistory, UpdateLastCooked } from './meal_plan/history.ts';
+import type { Recipe } from './recipe/recipe.ts';
+import { RecipeIndex } from './recipe/recipe_index.ts';
 import { MealSettings } from './settings/settings.ts';
 
 export class Context {
@@ -10,6 +12,9 @@ export class Context {
 
     recipes = writable([] as Recipe[]);
 
+    // Keeps `recipes` up to date as recipe notes change
+    recipeIndex = new RecipeIndex(this);
+
     ingredients = derived(this.recipes, ($recipes) => {
         const ingredients = new Set<string>();
 
@@ -29,6 +34,9 @@ export class Context {
 
     settings = writable(new MealSettings());
 
+    // How often and when each recipe was planned, keyed by lowercase recipe name
+    history = writable(new Map<string, RecipeHistory>());
+
     constructor(plugin: MealPlugin) {
         this.plugin = plugin;
         this.app = plugin.app;
@@ -68,32 +76,12 @@ export class Context {
         return this.isInRecipeFolder(file.parent, recipeFolder);
     }
 
-    async loadRecipes(file: TFile | null) {
-        // Get the recipe folder path by default 'Meals'
-        const recipeFolder = this.getRecipeFolder();
-        if (recipeFolder === null) {
-            console.error('Failed to get the recipe folder');
-            return;
-        }
-
-        // Load just the recipe file specified and only if it's actually in the recipeFolder
-        if (file !== null) {
-            if (this.isInRecipeFolder(file, recipeFolder)) {
-                if (this.debugMode()) {
-                    console.debug('Loading recipe:', file.name);
-                }
+    async loadHistory() {
+        const history = await LoadMealHistory(this);
+        this.history.set(history);
 
-                GetRecipe(this, file).then((r) => {
-                    this.recipes.update((arr) => {
-                        arr.push(r);
-                        return arr;
-                    });
-                });
-            }
-        } else {
-            GetRecipes(this, recipeFolder!).then((r) => {
-                this.recipes.set(r);
-            });
+        if (get(this.settings).updateLastCooked) {
+            await UpdateLastCooked(this, history);
         }
     }
 
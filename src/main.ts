@@ -6,10 +6,15 @@ import { get } from 'svelte/store';
 import 'virtual:uno.css';
 import { Context } from './context.ts';
 import { AddToPlanModal } from './meal_plan/add_to_plan.ts';
+import { GenerateMealPlanModal } from './meal_plan/generate_modal.ts';
 import MealPlanCalendarWrapper from './meal_plan/MealPlanCalendarWrapper.svelte';
 import { OpenMealPlanNote } from './meal_plan/plan.ts';
 import { AddFileToShoppingList, AddMealPlanToShoppingList, ClearCheckedIngredients } from './meal_plan/shopping_list.ts';
+import { MealStatisticsView, OpenStatisticsView, STATISTICS_VIEW_TYPE } from './meal_plan/statistics_view.ts';
+import { WeekActionsModal } from './meal_plan/week_actions_modal.ts';
+import { COOKING_VIEW_TYPE, CookingModeView, OpenCookingMode } from './recipe/cooking_view.ts';
 import { DownloadRecipeCommand, RedownloadRecipe } from './recipe/downloader.ts';
+import { HEALTH_VIEW_TYPE, OpenRecipeHealthView, RecipeHealthView } from './recipe/health_view.ts';
 import { Recipe } from './recipe/recipe.ts';
 import SearchRecipe from './recipe/SearchRecipe.svelte';
 import { MealSettings } from './settings/settings.ts';
@@ -24,25 +29,47 @@ export default class MealPlugin extends Plugin {
     async onload() {
         this.addSettingTab(new MealPluginSettingsTab(this.app, this));
 
+        this.registerView(STATISTICS_VIEW_TYPE, (leaf) => new MealStatisticsView(leaf, this.ctx));
+        this.registerView(COOKING_VIEW_TYPE, (leaf) => new CookingModeView(leaf, this.ctx));
+        this.registerView(HEALTH_VIEW_TYPE, (leaf) => new RecipeHealthView(leaf, this.ctx));
+
         this.app.workspace.onLayoutReady(async () => {
             await this.loadSettings();
 
             await initWasm(wasmData);
 
-            await this.ctx.loadRecipes(null);
+            await this.ctx.recipeIndex.load();
+            await this.ctx.loadHistory();
 
             this.registerEvent(
                 this.app.vault.on('create', (file) => {
-                    if (file instanceof TFile) {
-                        this.ctx.loadRecipes(file);
-                    }
+                    this.ctx.recipeIndex.update(file);
                 }),
             );
 
             this.registerEvent(
                 this.app.vault.on('modify', (file) => {
-                    if (file instanceof TFile) {
-                        this.ctx.loadRecipes(file as TFile);
+                    this.ctx.recipeIndex.update(file);
+                }),
+            );
+
+            this.registerEvent(
+                this.app.vault.on('rename', (file, oldPath) => {
+                    this.ctx.recipeIndex.rename(file, oldPath);
+                }),
+            );
+
+            this.registerEvent(
+                this.app.vault.on('delete', (file) => {
+                    this.ctx.recipeIndex.remove(file.path);
+                }),
+            );
+
+            // Rebuild the history once the metadata cache has the meal plan's new links
+            this.registerEvent(
+                this.app.metadataCache.on('changed', async (file) => {
+                    if (file.path === AppendMarkdownExt(get(this.ctx.settings).mealPlanNote)) {
+                        await this.ctx.loadHistory();
                     }
                 }),
             );
@@ -74,6 +101,69 @@ export default class MealPlugin extends Plugin {
             },
         });
 
+        this.addCommand({
+            id: 'generate-meal-plan',
+            name: 'Generate meal plan',
+            callback: () => {
+                new GenerateMealPlanModal(this.ctx).open();
+            },
+        });
+
+        this.addCommand({
+            id: 'copy-meal-plan-week',
+            name: 'Copy a meal plan week',
+            callback: () => {
+                new WeekActionsModal(this.ctx, 'copy').open();
+            },
+        });
+
+        this.addCommand({
+            id: 'swap-meal-plan-weeks',
+            name: 'Swap two meal plan weeks',
+            callback: () => {
+                new WeekActionsModal(this.ctx, 'swap').open();
+            },
+        });
+
+        this.addCommand({
+            id: 'clear-meal-plan-week',
+            name: 'Clear a meal plan week',
+            callback: () => {
+                new WeekActionsModal(this.ctx, 'clear').open();
+            },
+        });
+
+        this.addCommand({
+            id: 'open-meal-plan-statistics',
+            name: 'Open meal plan statistics',
+            callback: async () => {
+                await OpenStatisticsView(this.ctx);
+            },
+        });
+
+        this.addCommand({
+            id: 'open-recipe-health',
+            name: 'Open recipe health',
+            callback: async () => {
+                await OpenRecipeHealthView(this.ctx);
+            },
+        });
+
+        this.addCommand({
+            id: 'open-cooking-mode',
+            name: 'Cook the current recipe',
+            checkCallback: (checking: boolean) => {
+                const file = this.app.workspace.getActiveFile();
+                if (file === null || !this.ctx.isInRecipeFolder(file)) {
+                    return false;
+                }
+                if (!checking) {
+                    OpenCookingMode(this.ctx, file);
+                }
+                return true;
+            },
+        });
+
         this.addCommand({
             id: 'create-shopping-list',
             name: 'Add meal plan to shopping list',
@@ -114,7 +204,18 @@ export default class MealPlugin extends Plugin {
                             .setTitle('Add to meal plan')
                             .setIcon('utensils')
                             .onClick(() => {
-                                new AddToPlanModal(this.ctx, new Recipe(t)).open();
+                                // Prefer the loaded recipe so its servings are known
+                                const recipe = get(this.ctx.recipes).find((r) => r.path.path === t.path) ?? new Recipe(t);
+                                new AddToPlanModal(this.ctx, recipe).open();
+                            });
+                    });
+
+                    e.addItem((e) => {
+                        return e
+                            .setTitle('Start cooking')
+                            .setIcon('chef-hat')
+                            .onClick(() => {
+                                OpenCookingMode(this.ctx, t);
                             });
                     });
 
@@ -132,7 +233,7 @@ export default class MealPlugin extends Plugin {
 
         this.ctx.settings.subscribe(async () => {
             this.updateDebugMode(this.ctx.debugMode());
-            await this.ctx.loadRecipes(null);
+            await this.ctx.recipeIndex.settingsChanged();
             this.saveSettings();
 
             // Re-evaluate calendar injection when settings change
@@ -142,6 +243,10 @@ export default class MealPlugin extends Plugin {
         console.info('obisidan-meals plugin loaded');
     }
 
+    onunload() {
+        this.ctx.recipeIndex.cancel();
+    }
+
     async loadSettings() {
         this.loadedSettings = true;
 
@@ -169,7 +274,8 @@ export default class MealPlugin extends Plugin {
                             .setTitle('Reload recipe')
                             .setIcon('carrot')
                             .onClick(async () => {
-                                await this.ctx.loadRecipes(t);
+                                this.ctx.recipeIndex.update(t, true);
+                                await this.ctx.recipeIndex.flush();
                             });
                     });
                 }
@@ -181,7 +287,7 @@ export default class MealPlugin extends Plugin {
                 id: 'reload-recipes',
                 name: 'Reload all recipes',
                 callback: async () => {
-                    await this.ctx.loadRecipes(null);
+                    await this.ctx.recipeIndex.rebuild(false);
                 },
             });
         } else {
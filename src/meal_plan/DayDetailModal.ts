@@ -1,22 +1,36 @@
 import type moment from 'moment';
 import { Modal } from 'obsidian';
+import { get } from 'svelte/store';
 import type { Context } from '../context.ts';
 import type { CalendarItem } from './calendar_data.ts';
+import { formatNutrition, getDailyTargets, NUTRITION_FIELDS, type Nutrition } from './nutrition.ts';
 import { RecipePreviewModal } from './RecipePreviewModal.ts';
+import { formatSlotEntry } from './slots.ts';
 
 export class DayDetailModal extends Modal {
     private ctx: Context;
     private date: moment.Moment;
     private dayName: string;
     private items: CalendarItem[];
+    private dayNutrition: Nutrition | null;
+    private weekNutrition: Nutrition | null;
     private onChanged: () => void;
 
-    constructor(ctx: Context, date: moment.Moment, dayName: string, items: CalendarItem[], onChanged: () => void) {
+    constructor(
+        ctx: Context,
+        date: moment.Moment,
+        dayName: string,
+        items: CalendarItem[],
+        nutrition: { day: Nutrition | null; week: Nutrition | null },
+        onChanged: () => void,
+    ) {
         super(ctx.app);
         this.ctx = ctx;
         this.date = date;
         this.dayName = dayName;
         this.items = items;
+        this.dayNutrition = nutrition.day;
+        this.weekNutrition = nutrition.week;
         this.onChanged = onChanged;
     }
 
@@ -45,33 +59,71 @@ export class DayDetailModal extends Modal {
 
                 if (item.isRecipe) {
                     // Recipe - make it clickable to open preview
+                    let name = item.multiplier !== undefined ? `${item.name} x${item.multiplier}` : item.name;
+                    if (item.leftovers) {
+                        name = `Leftovers: ${name}`;
+                    }
                     const recipeLink = listItem.createEl('button', {
-                        text: item.name,
+                        text: formatSlotEntry(name, item.slot ?? null),
                         cls: 'day-detail-recipe-link',
                     });
                     recipeLink.addEventListener('click', () => {
-                        new RecipePreviewModal(this.ctx, item.name, this.date, this.dayName, () => {
-                            this.onChanged();
-                            // Close this modal after removing a recipe
-                            this.close();
-                        }).open();
+                        new RecipePreviewModal(
+                            this.ctx,
+                            item.name,
+                            this.date,
+                            this.dayName,
+                            item.slot ?? null,
+                            () => {
+                                this.onChanged();
+                                // Close this modal after removing a recipe
+                                this.close();
+                            },
+                            item.leftovers ?? false,
+                        ).open();
                     });
                 } else {
                     // Non-recipe - just display the text
                     listItem.createEl('span', {
-                        text: item.name,
+                        text: formatSlotEntry(item.name, item.slot ?? null),
                         cls: 'day-detail-non-recipe',
                     });
                 }
             }
         }
 
+        // Nutrition totals for the day and its week, compared against the daily targets
+        if (this.dayNutrition !== null || this.weekNutrition !== null) {
+            const targets = getDailyTargets(get(this.ctx.settings));
+            const weekTargets = { ...targets };
+            for (const field of NUTRITION_FIELDS) {
+                weekTargets[field.key] = targets[field.key] * 7;
+            }
+
+            const nutritionContainer = contentEl.createDiv('day-detail-nutrition');
+            this.renderNutrition(nutritionContainer, 'Day', this.dayNutrition, targets);
+            this.renderNutrition(nutritionContainer, 'Week', this.weekNutrition, weekTargets);
+        }
+
         // Footer with close button
         const footer = contentEl.createDiv('day-detail-footer');
         const closeBtn = footer.createEl('button', { text: 'Close' });
         closeBtn.addEventListener('click', () => this.close());
     }
 
+    private renderNutrition(container: HTMLElement, title: string, nutrition: Nutrition | null, targets: Nutrition) {
+        if (nutrition === null) {
+            return;
+        }
+
+        const section = container.createDiv('day-detail-nutrition-section');
+        section.createEl('h4', { text: title });
+        const list = section.createEl('ul');
+        for (const line of formatNutrition(nutrition, targets)) {
+            list.createEl('li', { text: line.text, cls: line.overTarget ? 'over-target' : '' });
+        }
+    }
+
     onClose() {
         this.contentEl.empty();
     }
@@ -1,25 +1,42 @@
 import type moment from 'moment';
-import { Component, MarkdownRenderer, Modal } from 'obsidian';
+import { Component, MarkdownRenderer, Modal, Notice } from 'obsidian';
 import { get } from 'svelte/store';
 import type { Context } from '../context.ts';
+import { OpenCookingMode } from '../recipe/cooking_view.ts';
 import { AppendMarkdownExt } from '../utils/filesystem.ts';
-import { RemoveRecipeFromMealPlan } from './plan.ts';
+import { formatHistory } from './history.ts';
+import { PlanLeftovers, RemoveMealPlanItem, RemoveRecipeFromMealPlan } from './plan.ts';
 
 export class RecipePreviewModal extends Modal {
     private ctx: Context;
     private recipeName: string;
     private date: moment.Moment;
     private dayName: string;
+    private slot: string | null;
     private onRemoved: () => void;
+    private leftovers: boolean;
     private renderComponent: Component;
 
-    constructor(ctx: Context, recipeName: string, date: moment.Moment, dayName: string, onRemoved: () => void) {
+    /**
+     * @param leftovers Whether the entry is the leftovers of the recipe rather than the recipe itself
+     */
+    constructor(
+        ctx: Context,
+        recipeName: string,
+        date: moment.Moment,
+        dayName: string,
+        slot: string | null,
+        onRemoved: () => void,
+        leftovers = false,
+    ) {
         super(ctx.app);
         this.ctx = ctx;
         this.recipeName = recipeName;
         this.date = date;
         this.dayName = dayName;
+        this.slot = slot;
         this.onRemoved = onRemoved;
+        this.leftovers = leftovers;
         this.renderComponent = new Component();
     }
 
@@ -32,6 +49,10 @@ export class RecipePreviewModal extends Modal {
         // Header with recipe name and close button
         const header = contentEl.createDiv('recipe-preview-header');
         header.createEl('h2', { text: this.recipeName });
+        header.createEl('p', {
+            text: formatHistory(get(this.ctx.history).get(this.recipeName.split('/').pop()?.toLowerCase() ?? '')),
+            cls: 'recipe-preview-history',
+        });
 
         // Content container for recipe
         const recipeContent = contentEl.createDiv('recipe-preview-content');
@@ -55,12 +76,44 @@ export class RecipePreviewModal extends Modal {
         // Actions footer
         const footer = contentEl.createDiv('recipe-preview-footer');
 
+        if (recipeFile) {
+            const cookBtn = footer.createEl('button', { text: 'Start cooking' });
+            cookBtn.addEventListener('click', async () => {
+                this.close();
+                await OpenCookingMode(this.ctx, recipeFile);
+            });
+        }
+
+        // A batch cooked today can be planned as leftovers for the next few days
+        if (!this.leftovers) {
+            const leftoversDays = footer.createEl('input', { type: 'number', value: '1', cls: 'recipe-preview-leftovers' });
+            leftoversDays.min = '1';
+            leftoversDays.title = 'Days of leftovers';
+
+            const leftoversBtn = footer.createEl('button', { text: 'Plan leftovers' });
+            leftoversBtn.addEventListener('click', async () => {
+                const days = Number.parseInt(leftoversDays.value, 10);
+                if (!(days > 0)) {
+                    return;
+                }
+
+                await PlanLeftovers(this.ctx, this.recipeName, this.date, days, this.slot);
+                new Notice(`Planned ${days === 1 ? '1 day' : `${days} days`} of leftovers of ${this.recipeName}`);
+                this.close();
+            });
+        }
+
         const removeBtn = footer.createEl('button', {
-            text: `Remove from ${this.dayName}`,
+            text: this.slot !== null ? `Remove from ${this.dayName} ${this.slot.toLowerCase()}` : `Remove from ${this.dayName}`,
             cls: 'mod-warning',
         });
         removeBtn.addEventListener('click', async () => {
-            await RemoveRecipeFromMealPlan(this.ctx, this.recipeName, this.date);
+            if (this.leftovers) {
+                const item = { name: this.recipeName, isRecipe: true, leftovers: true, ...(this.slot !== null ? { slot: this.slot } : {}) };
+                await RemoveMealPlanItem(this.ctx, item, this.date);
+            } else {
+                await RemoveRecipeFromMealPlan(this.ctx, this.recipeName, this.date, this.slot);
+            }
             this.onRemoved();
             this.close();
         });
@@ -5,10 +5,11 @@ import type { Recipe } from '../recipe/recipe.ts';
 
 export class RecipeSelectModal extends Modal {
     private ctx: Context;
-    private onSelect: (recipe: Recipe) => void;
+    private onSelect: (recipe: Recipe, slot: string | null) => void;
     private searchInput: HTMLInputElement | null = null;
+    private slot: string | null = null;
 
-    constructor(ctx: Context, onSelect: (recipe: Recipe) => void) {
+    constructor(ctx: Context, onSelect: (recipe: Recipe, slot: string | null) => void) {
         super(ctx.app);
         this.ctx = ctx;
         this.onSelect = onSelect;
@@ -30,6 +31,19 @@ export class RecipeSelectModal extends Modal {
         });
         this.searchInput.focus();
 
+        // Meal slot picker, only shown when slots are configured
+        const slots = get(this.ctx.settings).mealSlots;
+        if (slots.length > 0) {
+            const slotSelect = contentEl.createEl('select', { cls: 'dropdown' });
+            slotSelect.createEl('option', { text: 'No slot', value: '' });
+            for (const slot of slots) {
+                slotSelect.createEl('option', { text: slot, value: slot });
+            }
+            slotSelect.addEventListener('change', () => {
+                this.slot = slotSelect.value === '' ? null : slotSelect.value;
+            });
+        }
+
         // Recipe list container
         const listContainer = contentEl.createDiv('recipe-list-container');
 
@@ -68,7 +82,7 @@ export class RecipeSelectModal extends Modal {
             const item = container.createDiv('recipe-list-item');
             item.textContent = recipe.name;
             item.addEventListener('click', () => {
-                this.onSelect(recipe);
+                this.onSelect(recipe, this.slot);
                 this.close();
             });
         }
@@ -3,10 +3,17 @@ import type { LinkCache, TFile } from 'obsidian';
 import { DAYS_OF_WEEK } from '../constants.ts';
 import type { Context } from '../context.ts';
 import { getWeekStartMoment } from '../utils/utils.ts';
+import { isLeftoversLink, linkLeftovers, parseLeftoversPrefix } from './leftovers.ts';
+import { MULTIPLIER_SUFFIX, parseMultiplierSuffix } from './servings.ts';
+import { matchSlotHeading, parseSlotPrefix } from './slots.ts';
 
 export interface CalendarItem {
     name: string;
     isRecipe: boolean;
+    multiplier?: number; // Servings multiplier, only set when the entry has one e.g. `[[Recipe]] x2`
+    slot?: string; // Meal slot, only set when the entry is in one of the configured slots
+    leftovers?: boolean; // A `Leftovers: [[Recipe]]` entry, eating a batch cooked on an earlier day
+    leftoversFrom?: string; // YYYY-MM-DD of the day the batch was cooked, when it's in the meal plan
 }
 
 export interface DayData {
@@ -21,6 +28,8 @@ export interface WeekData {
     days: DayData[];
 }
 
+export type CalendarViewMode = 'month' | 'week' | 'agenda';
+
 export interface CalendarData {
     weeks: WeekData[];
     currentMonth: moment.Moment;
@@ -29,8 +38,14 @@ export interface CalendarData {
 /**
  * Extract items for each day from the meal plan file
  * Returns a map of date string (YYYY-MM-DD) to array of CalendarItems
+ * @param slots The configured meal slots
  */
-export async function extractDailyRecipes(ctx: Context, file: TFile, startOfWeek: number): Promise<Map<string, CalendarItem[]>> {
+export async function extractDailyRecipes(
+    ctx: Context,
+    file: TFile,
+    startOfWeek: number,
+    slots: string[] = [],
+): Promise<Map<string, CalendarItem[]>> {
     const content = await ctx.app.vault.read(file);
     const fileCache = ctx.app.metadataCache.getFileCache(file);
     const links = fileCache?.links || [];
@@ -39,9 +54,9 @@ export async function extractDailyRecipes(ctx: Context, file: TFile, startOfWeek
     const isTable = content.trimStart().startsWith('|');
 
     if (isTable) {
-        return extractDailyRecipesFromTable(content, startOfWeek);
+        return linkLeftovers(extractDailyRecipesFromTable(content, startOfWeek, slots));
     }
-    return extractDailyRecipesFromList(ctx, file, content, links, startOfWeek);
+    return linkLeftovers(extractDailyRecipesFromList(ctx, file, content, links, startOfWeek, slots));
 }
 
 /**
@@ -53,6 +68,7 @@ function extractDailyRecipesFromList(
     content: string,
     links: LinkCache[],
     startOfWeek: number,
+    slots: string[],
 ): Map<string, CalendarItem[]> {
     const dailyRecipes = new Map<string, CalendarItem[]>();
     const fileCache = ctx.app.metadataCache.getFileCache(file);
@@ -98,7 +114,7 @@ function extractDailyRecipesFromList(
             const dayContent = content.slice(dayHeading.position.end.offset, dayEndOffset);
 
             // Extract all entries (both links and plain text list items)
-            const dayEntries = extractEntriesFromListContent(dayContent, links, dayHeading.position.end.offset, dayEndOffset);
+            const dayEntries = extractEntriesFromListContent(dayContent, links, dayHeading.position.end.offset, dayEndOffset, slots);
 
             if (dayEntries.length > 0) {
                 dailyRecipes.set(dateKey, dayEntries);
@@ -112,7 +128,13 @@ function extractDailyRecipesFromList(
 /**
  * Extract entries from list content, including both links and plain text items
  */
-function extractEntriesFromListContent(dayContent: string, links: any[], startOffset: number, endOffset: number): CalendarItem[] {
+function extractEntriesFromListContent(
+    dayContent: string,
+    links: any[],
+    startOffset: number,
+    endOffset: number,
+    slots: string[],
+): CalendarItem[] {
     const entries: CalendarItem[] = [];
     const lines = dayContent.split('\n');
 
@@ -128,12 +150,19 @@ function extractEntriesFromListContent(dayContent: string, links: any[], startOf
         }
     }
 
+    // The `### Slot` heading the current line is under
+    let slot: string | null = null;
+
     let currentOffset = startOffset;
     for (const line of lines) {
         const trimmedLine = line.trim();
         const lineStart = currentOffset;
         const lineEnd = currentOffset + line.length;
 
+        if (trimmedLine.startsWith('### ')) {
+            slot = matchSlotHeading(trimmedLine.slice(4), slots);
+        }
+
         // Check if this is a list item (starts with - or - [ ])
         if (trimmedLine.startsWith('- ') || trimmedLine.startsWith('- [ ]') || trimmedLine.startsWith('- [x]')) {
             // Find any links on this line
@@ -142,7 +171,12 @@ function extractEntriesFromListContent(dayContent: string, links: any[], startOf
             if (lineLinks.length > 0) {
                 // Add the link text as recipes
                 for (const linkRange of lineLinks) {
-                    entries.push({ name: linkRange.text, isRecipe: true });
+                    const multiplier = parseMultiplierSuffix(line.slice(linkRange.end - lineStart));
+                    const item = createRecipeItem(linkRange.text, multiplier);
+                    if (isLeftoversLink(line, linkRange.start - lineStart)) {
+                        item.leftovers = true;
+                    }
+                    entries.push(withSlot(item, slot));
                 }
             } else {
                 // No links - extract plain text as non-recipe
@@ -157,7 +191,7 @@ function extractEntriesFromListContent(dayContent: string, links: any[], startOf
                 }
                 text = text.trim();
                 if (text.length > 0) {
-                    entries.push({ name: text, isRecipe: false });
+                    entries.push(withSlot({ name: text, isRecipe: false }, slot));
                 }
             }
         }
@@ -171,7 +205,7 @@ function extractEntriesFromListContent(dayContent: string, links: any[], startOf
 /**
  * Extract items from table format
  */
-function extractDailyRecipesFromTable(content: string, startOfWeek: number): Map<string, CalendarItem[]> {
+function extractDailyRecipesFromTable(content: string, startOfWeek: number, slots: string[]): Map<string, CalendarItem[]> {
     const dailyRecipes = new Map<string, CalendarItem[]>();
     const lines = content.split('\n');
 
@@ -224,7 +258,7 @@ function extractDailyRecipesFromTable(content: string, startOfWeek: number): Map
             const cellContent = cells[colIndex] || '';
 
             // Extract entries from cell (both links and plain text)
-            const dayEntries = extractEntriesFromTableCell(cellContent);
+            const dayEntries = extractEntriesFromTableCell(cellContent, slots);
 
             if (dayEntries.length > 0) {
                 const existing = dailyRecipes.get(dateKey) || [];
@@ -239,28 +273,37 @@ function extractDailyRecipesFromTable(content: string, startOfWeek: number): Map
 /**
  * Extract entries from a table cell, including both links and plain text items
  */
-function extractEntriesFromTableCell(cellContent: string): CalendarItem[] {
+function extractEntriesFromTableCell(cellContent: string, slots: string[]): CalendarItem[] {
     const entries: CalendarItem[] = [];
 
     // Extract recipe links directly from [[...]] patterns in cell content
     // This is more reliable than position-based detection for tables
-    const linkPattern = /\[\[([^\]]+)\]\]/g;
-    for (const match of cellContent.matchAll(linkPattern)) {
-        // Handle display text syntax [[link|display]] - use the link part
-        const linkText = match[1].split('|')[0];
-        entries.push({ name: linkText, isRecipe: true });
-    }
+    const linkPattern = new RegExp(`\\[\\[([^\\]]+)\\]\\](?:${MULTIPLIER_SUFFIX})?`, 'g');
+
+    // Each <br> separated part is one entry, optionally prefixed with its slot
+    for (const part of cellContent.split(/<br\s*\/?>/i)) {
+        const { slot, text: entry } = parseSlotPrefix(part, slots);
+
+        // The leftovers prefix only counts in front of a recipe link, other text is kept as written
+        const parsed = parseLeftoversPrefix(entry);
+        const leftovers = parsed.leftovers && parsed.text.startsWith('[[');
+        const text = leftovers ? parsed.text : entry;
+
+        for (const match of text.matchAll(linkPattern)) {
+            // Handle display text syntax [[link|display]] - use the link part
+            const linkText = match[1].split('|')[0];
+            const multiplier = parseMultiplierSuffix(match[0].slice(match[0].indexOf(']]') + 2));
+            const item = createRecipeItem(linkText, multiplier);
+            if (leftovers) {
+                item.leftovers = true;
+            }
+            entries.push(withSlot(item, slot));
+        }
 
-    // Extract plain text entries (not inside [[...]]) separated by <br>
-    let remainingText = cellContent;
-    // Remove [[...]] patterns to find remaining plain text
-    remainingText = remainingText.replace(/\[\[([^\]]+)\]\]/g, '');
-    // Split by <br> and extract non-empty entries as non-recipes
-    const textParts = remainingText.split(/<br\s*\/?>/i);
-    for (const part of textParts) {
-        const trimmed = part.trim();
-        if (trimmed.length > 0) {
-            entries.push({ name: trimmed, isRecipe: false });
+        // Remove [[...]] patterns (and their multipliers) to find remaining plain text
+        const remainingText = text.replace(linkPattern, '').trim();
+        if (remainingText.length > 0) {
+            entries.push(withSlot({ name: remainingText, isRecipe: false }, slot));
         }
     }
 
@@ -310,8 +353,62 @@ export function generateCalendarData(
     return { weeks, currentMonth: displayMonth };
 }
 
+/**
+ * Generate the week containing a date, for the week view
+ */
+export function generateWeekData(date: moment.Moment, startOfWeek: number, dailyItems: Map<string, CalendarItem[]>): WeekData {
+    const weekStart = getWeekStartMoment(date, startOfWeek);
+    const days: DayData[] = [];
+
+    for (let dayNum = 0; dayNum < 7; dayNum++) {
+        const day = weekStart.clone().add(dayNum, 'days');
+        days.push({
+            date: day,
+            dayName: DAYS_OF_WEEK[day.day()],
+            items: dailyItems.get(day.format('YYYY-MM-DD')) || [],
+            isCurrentMonth: true,
+        });
+    }
+
+    return { weekStart, days };
+}
+
+/**
+ * The days with something planned from a date onwards, for the agenda view
+ * @param daysToShow How many days ahead to look
+ */
+export function generateAgendaData(from: moment.Moment, dailyItems: Map<string, CalendarItem[]>, daysToShow = 28): DayData[] {
+    const days: DayData[] = [];
+
+    for (let dayNum = 0; dayNum < daysToShow; dayNum++) {
+        const date = from.clone().startOf('day').add(dayNum, 'days');
+        const items = dailyItems.get(date.format('YYYY-MM-DD')) || [];
+        if (items.length > 0) {
+            days.push({ date, dayName: DAYS_OF_WEEK[date.day()], items, isCurrentMonth: true });
+        }
+    }
+
+    return days;
+}
+
 // Helper functions
 
+function createRecipeItem(name: string, multiplier: number): CalendarItem {
+    if (multiplier === 1) {
+        return { name, isRecipe: true };
+    }
+
+    return { name, isRecipe: true, multiplier };
+}
+
+function withSlot(item: CalendarItem, slot: string | null): CalendarItem {
+    if (slot === null) {
+        return item;
+    }
+
+    return { ...item, slot };
+}
+
 function parseWeekDate(dateStr: string): moment.Moment | null {
     const currentYear = moment().year();
     let date = moment(`${dateStr} ${currentYear}`, 'MMMM Do YYYY');
@@ -3,11 +3,14 @@ import { Modal } from 'obsidian';
 import { mount, unmount } from 'svelte';
 import { get } from 'svelte/store';
 import type { Context } from '../context.ts';
+import { FindDietViolations, GetActiveDietProfile } from '../recipe/diet.ts';
 import type { Recipe } from '../recipe/recipe.ts';
 import { AppendMarkdownExt } from '../utils/filesystem.ts';
 import CalendarView from './CalendarView.svelte';
 import { type CalendarItem, extractDailyRecipes } from './calendar_data.ts';
+import { getDailyTargets, SumDailyNutrition } from './nutrition.ts';
 import { AddRecipeToMealPlanByDate } from './plan.ts';
+import { servingsToMultiplier } from './servings.ts';
 
 export class CalendarModal extends Modal {
     private component: Record<string, any> | null = null;
@@ -34,10 +37,16 @@ export class CalendarModal extends Modal {
             target: contentEl,
             props: {
                 recipeName: this.recipe.name,
+                recipeServings: this.recipe.servings,
                 startOfWeek: settings.startOfWeek,
                 dailyItems: this.dailyItems,
-                onSelectDay: async (date: moment.Moment, dayName: string) => {
-                    await AddRecipeToMealPlanByDate(this.ctx, this.recipe, date, dayName);
+                dailyNutrition: SumDailyNutrition(this.dailyItems, get(this.ctx.recipes)),
+                calorieTarget: getDailyTargets(settings).calories,
+                warning: this.getDietWarning(),
+                mealSlots: settings.mealSlots,
+                onSelectDay: async (date: moment.Moment, dayName: string, servings: number, slot: string | null) => {
+                    const multiplier = servingsToMultiplier(servings, this.recipe.servings);
+                    await AddRecipeToMealPlanByDate(this.ctx, this.recipe, date, dayName, multiplier, slot);
                     this.close();
                 },
                 onCancel: () => {
@@ -47,13 +56,30 @@ export class CalendarModal extends Modal {
         });
     }
 
+    /**
+     * Warn when the recipe has ingredients the active diet profile doesn't allow
+     */
+    private getDietWarning(): string | null {
+        const profile = GetActiveDietProfile(get(this.ctx.settings));
+        if (profile === null) {
+            return null;
+        }
+
+        const violations = FindDietViolations(this.recipe, profile);
+        if (violations.length === 0) {
+            return null;
+        }
+
+        return `Not ${profile.name}, contains ${violations.join(', ')}`;
+    }
+
     private async loadMealPlanData() {
         const settings = get(this.ctx.settings);
         const mealPlanFilePath = AppendMarkdownExt(settings.mealPlanNote);
         const mealPlanFile = this.ctx.app.vault.getFileByPath(mealPlanFilePath);
 
         if (mealPlanFile) {
-            this.dailyItems = await extractDailyRecipes(this.ctx, mealPlanFile, settings.startOfWeek);
+            this.dailyItems = await extractDailyRecipes(this.ctx, mealPlanFile, settings.startOfWeek, settings.mealSlots);
         }
     }
 
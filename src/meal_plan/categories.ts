@@ -0,0 +1,248 @@
+import { escapeRegExp } from '../utils/utils.ts';
+
+export const OTHER_CATEGORY = 'Other';
+
+// Keywords matched against ingredient descriptions, the longest matching keyword wins
+// so "coconut milk" goes in Pantry rather than Dairy & Eggs
+const DEFAULT_CATEGORIES: Record<string, string[]> = {
+    Produce: [
+        'apple',
+        'aubergine',
+        'avocado',
+        'banana',
+        'basil',
+        'bell pepper',
+        'berries',
+        'blueberry',
+        'broccoli',
+        'cabbage',
+        'carrot',
+        'cauliflower',
+        'celery',
+        'chili',
+        'chilli',
+        'cilantro',
+        'coriander',
+        'courgette',
+        'cucumber',
+        'eggplant',
+        'garlic',
+        'ginger',
+        'kale',
+        'leek',
+        'lemon',
+        'lettuce',
+        'lime',
+        'mint',
+        'mushroom',
+        'onion',
+        'orange',
+        'parsley',
+        'potato',
+        'pumpkin',
+        'scallion',
+        'shallot',
+        'spinach',
+        'spring onion',
+        'squash',
+        'strawberry',
+        'sweet potato',
+        'tomato',
+        'zucchini',
+    ],
+    Bakery: ['bagel', 'baguette', 'bread', 'bun', 'naan', 'pita', 'pitta', 'tortilla', 'wrap'],
+    'Meat & Fish': [
+        'bacon',
+        'beef',
+        'chicken',
+        'chorizo',
+        'cod',
+        'fish',
+        'ham',
+        'lamb',
+        'mince',
+        'pork',
+        'prawn',
+        'salmon',
+        'sausage',
+        'shrimp',
+        'steak',
+        'tuna',
+        'turkey',
+    ],
+    'Dairy & Eggs': [
+        'butter',
+        'cheddar',
+        'cheese',
+        'cream',
+        'creme fraiche',
+        'egg',
+        'feta',
+        'milk',
+        'mozzarella',
+        'parmesan',
+        'sour cream',
+        'yoghurt',
+        'yogurt',
+    ],
+    Frozen: ['frozen', 'ice cream'],
+    Pantry: [
+        'almond',
+        'baking powder',
+        'baking soda',
+        'beans',
+        'breadcrumbs',
+        'broth',
+        'chickpea',
+        'chopped tomatoes',
+        'coconut milk',
+        'cornflour',
+        'cornstarch',
+        'flour',
+        'honey',
+        'jam',
+        'ketchup',
+        'lentil',
+        'mayonnaise',
+        'mustard',
+        'noodle',
+        'oats',
+        'oil',
+        'pasta',
+        'peanut',
+        'peanut butter',
+        'rice',
+        'soy sauce',
+        'spaghetti',
+        'stock',
+        'sugar',
+        'tinned tomatoes',
+        'tomato paste',
+        'tomato puree',
+        'tomato sauce',
+        'vinegar',
+        'walnut',
+        'yeast',
+    ],
+    Spices: [
+        'bay leaf',
+        'black pepper',
+        'chili powder',
+        'chilli flakes',
+        'cinnamon',
+        'cumin',
+        'curry powder',
+        'garam masala',
+        'garlic powder',
+        'nutmeg',
+        'onion powder',
+        'oregano',
+        'paprika',
+        'pepper',
+        'rosemary',
+        'salt',
+        'thyme',
+        'turmeric',
+        'vanilla',
+    ],
+    Drinks: ['beer', 'coffee', 'juice', 'tea', 'wine'],
+};
+
+/**
+ * Parse the category override lines from the settings, written as `ingredient: Category`
+ * @returns A map of lowercase ingredient to category, lines without a category are skipped
+ */
+export function parseCategoryOverrides(lines: string[]): Map<string, string> {
+    const overrides = new Map<string, string>();
+
+    for (const line of lines) {
+        const separator = line.lastIndexOf(':');
+        if (separator === -1) {
+            continue;
+        }
+
+        const ingredient = line.slice(0, separator).trim().toLowerCase();
+        const category = line.slice(separator + 1).trim();
+        if (ingredient.length === 0 || category.length === 0) {
+            continue;
+        }
+
+        overrides.set(ingredient, category);
+    }
+
+    return overrides;
+}
+
+/**
+ * Find the store category of an ingredient, checking the user's overrides before the default dictionary
+ * @returns The category, or `Other` when nothing matches
+ */
+export function categorizeIngredient(description: string, overrides: Map<string, string>): string {
+    const desc = description.toLowerCase();
+
+    const overridden = findLongestMatch(desc, overrides.entries());
+    if (overridden !== null) {
+        return overridden;
+    }
+
+    const defaults = Object.entries(DEFAULT_CATEGORIES).flatMap(([category, keywords]) => {
+        return keywords.map((keyword) => [keyword, category] as [string, string]);
+    });
+
+    return findLongestMatch(desc, defaults) ?? OTHER_CATEGORY;
+}
+
+/**
+ * Group items by category, ordered by the store order
+ * Categories missing from the store order come after it alphabetically, with `Other` always last
+ */
+export function groupByCategory<T>(
+    items: T[],
+    getDescription: (item: T) => string,
+    overrides: Map<string, string>,
+    storeOrder: string[],
+): { category: string; items: T[] }[] {
+    const groups = new Map<string, T[]>();
+    for (const item of items) {
+        const category = categorizeIngredient(getDescription(item), overrides);
+        const group = groups.get(category) ?? [];
+        group.push(item);
+        groups.set(category, group);
+    }
+
+    const order = storeOrder.map((c) => c.toLowerCase());
+    const rank = (category: string) => {
+        if (category === OTHER_CATEGORY) {
+            return Number.MAX_SAFE_INTEGER;
+        }
+
+        const index = order.indexOf(category.toLowerCase());
+        return index === -1 ? order.length : index;
+    };
+
+    return [...groups.entries()]
+        .sort(([a], [b]) => rank(a) - rank(b) || a.localeCompare(b))
+        .map(([category, items]) => {
+            return { category, items };
+        });
+}
+
+/**
+ * Find the category of the longest keyword that appears as a whole word (optionally plural) in the description
+ */
+function findLongestMatch(description: string, keywords: Iterable<[string, string]>): string | null {
+    let best: { length: number; category: string } | null = null;
+
+    for (const [keyword, category] of keywords) {
+        if (best !== null && keyword.length <= best.length) {
+            continue;
+        }
+
+        const pattern = new RegExp(`(?:^|[^a-z])${escapeRegExp(keyword)}(?:e?s)?(?:$|[^a-z])`);
+        if (pattern.test(description)) {
+            best = { length: keyword.length, category };
+        }
+    }
+
+    return best?.category ?? null;
+}
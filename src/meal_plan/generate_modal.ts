@@ -0,0 +1,36 @@
+import { Modal } from 'obsidian';
+import { mount, unmount } from 'svelte';
+import type { Context } from '../context.ts';
+import GenerateMealPlan from './GenerateMealPlan.svelte';
+
+export class GenerateMealPlanModal extends Modal {
+    private component: Record<string, any> | null = null;
+    private ctx: Context;
+
+    constructor(ctx: Context) {
+        super(ctx.app);
+        this.ctx = ctx;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        this.component = mount(GenerateMealPlan, {
+            target: contentEl,
+            props: {
+                ctx: this.ctx,
+                onClose: () => {
+                    this.close();
+                },
+            },
+        });
+    }
+
+    onClose() {
+        if (this.component) {
+            unmount(this.component);
+        }
+        this.contentEl.empty();
+    }
+}
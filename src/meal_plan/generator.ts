@@ -0,0 +1,183 @@
+import type moment from 'moment';
+import type { Recipe } from '../recipe/recipe.ts';
+import type { CalendarItem } from './calendar_data.ts';
+
+export interface GeneratorOptions {
+    noRepeatWeeks: number; // Recipes planned this many weeks before the generated week aren't picked again
+    maxWeekdayTime: number | null; // Minutes, recipes without a total time are allowed
+    tagQuotas: Map<string, number>; // Lowercase tag to the number of days that should have a recipe with that tag
+    reuseIngredients: boolean; // Prefer recipes sharing ingredients with the ones already picked
+    isStaple: (description: string) => boolean; // Ingredients that don't count as shared, like salt
+}
+
+export interface GeneratedDay {
+    date: moment.Moment;
+    dayName: string;
+    recipe: Recipe | null; // Null when no recipe fits the constraints
+    quotaTag: string | null; // The tag quota this day fills, kept when re-rolling
+}
+
+const WEEKDAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'];
+
+/**
+ * Parse tag quotas written as `tag: count`, one per line, e.g. `vegetarian: 2`
+ */
+export function parseTagQuotas(lines: string[]): Map<string, number> {
+    const quotas = new Map<string, number>();
+
+    for (const line of lines) {
+        const separator = line.lastIndexOf(':');
+        if (separator === -1) {
+            continue;
+        }
+
+        const tag = line.slice(0, separator).trim().replace(/^#/, '').toLowerCase();
+        const count = Number.parseInt(line.slice(separator + 1).trim(), 10);
+        if (tag.length > 0 && count > 0) {
+            quotas.set(tag, count);
+        }
+    }
+
+    return quotas;
+}
+
+/**
+ * The lowercase names of the recipes planned from `noRepeatWeeks` weeks before the week start to the end of the week
+ */
+function recentlyPlanned(planned: Map<string, CalendarItem[]>, weekStart: moment.Moment, noRepeatWeeks: number): Set<string> {
+    const from = weekStart.clone().subtract(noRepeatWeeks * 7, 'days');
+    const to = weekStart.clone().add(7, 'days');
+    const names = new Set<string>();
+
+    for (const [dateKey, items] of planned) {
+        if (dateKey < from.format('YYYY-MM-DD') || dateKey >= to.format('YYYY-MM-DD')) {
+            continue;
+        }
+
+        for (const item of items) {
+            if (item.isRecipe) {
+                names.add(item.name.split('/').pop()?.toLowerCase() ?? '');
+            }
+        }
+    }
+
+    return names;
+}
+
+function ingredientNames(recipe: Recipe, options: GeneratorOptions): string[] {
+    return recipe.ingredients
+        .filter((i) => i?.description !== undefined && !options.isStaple(i.description))
+        .map((i) => i.description.toLowerCase());
+}
+
+/**
+ * Pick a recipe for a day at random, weighted towards recipes sharing ingredients with the ones already picked
+ */
+function pickRecipe(
+    recipes: Recipe[],
+    day: { dayName: string; quotaTag: string | null },
+    excluded: Set<string>,
+    picked: Recipe[],
+    options: GeneratorOptions,
+    random: () => number,
+): Recipe | null {
+    const isWeekday = WEEKDAYS.includes(day.dayName);
+    const candidates = recipes.filter((r) => {
+        if (excluded.has(r.name.toLowerCase())) {
+            return false;
+        }
+
+        if (isWeekday && options.maxWeekdayTime !== null && r.totalTime !== null && r.totalTime > options.maxWeekdayTime) {
+            return false;
+        }
+
+        return day.quotaTag === null || r.tags.some((t) => t.toLowerCase() === day.quotaTag);
+    });
+
+    if (candidates.length === 0) {
+        return null;
+    }
+
+    const pickedIngredients = new Set(picked.flatMap((r) => ingredientNames(r, options)));
+    const weights = candidates.map((r) => {
+        if (!options.reuseIngredients) {
+            return 1;
+        }
+
+        return 1 + 2 * ingredientNames(r, options).filter((i) => pickedIngredients.has(i)).length;
+    });
+
+    let target = random() * weights.reduce((a, b) => a + b, 0);
+    for (let i = 0; i < candidates.length; i++) {
+        target -= weights[i];
+        if (target < 0) {
+            return candidates[i];
+        }
+    }
+
+    return candidates[candidates.length - 1];
+}
+
+/**
+ * Pick a recipe for each of the days
+ * The tag quotas are filled first, on the earliest days, and no recipe is picked twice
+ * @param days The empty days of the week to fill
+ * @param planned Everything already in the meal plan, used to avoid repeating recent recipes
+ */
+export function GenerateMealPlan(
+    recipes: Recipe[],
+    days: { date: moment.Moment; dayName: string }[],
+    weekStart: moment.Moment,
+    planned: Map<string, CalendarItem[]>,
+    options: GeneratorOptions,
+    random: () => number = Math.random,
+): GeneratedDay[] {
+    const excluded = recentlyPlanned(planned, weekStart, options.noRepeatWeeks);
+    const quotaTags = [...options.tagQuotas].flatMap(([tag, count]) => Array<string>(count).fill(tag));
+
+    const picked: Recipe[] = [];
+    return days.map((day, i) => {
+        const quotaTag = quotaTags[i] ?? null;
+        const recipe =
+            pickRecipe(recipes, { dayName: day.dayName, quotaTag }, excluded, picked, options, random) ??
+            pickRecipe(recipes, { dayName: day.dayName, quotaTag: null }, excluded, picked, options, random);
+
+        if (recipe !== null) {
+            excluded.add(recipe.name.toLowerCase());
+            picked.push(recipe);
+        }
+
+        return { ...day, recipe, quotaTag };
+    });
+}
+
+/**
+ * Pick a different recipe for one of the generated days, keeping the other days as they are
+ */
+export function RerollDay(
+    plan: GeneratedDay[],
+    index: number,
+    recipes: Recipe[],
+    weekStart: moment.Moment,
+    planned: Map<string, CalendarItem[]>,
+    options: GeneratorOptions,
+    random: () => number = Math.random,
+): GeneratedDay[] {
+    const excluded = recentlyPlanned(planned, weekStart, options.noRepeatWeeks);
+    const others = plan.filter((_, i) => i !== index).flatMap((d) => (d.recipe !== null ? [d.recipe] : []));
+    for (const recipe of others) {
+        excluded.add(recipe.name.toLowerCase());
+    }
+
+    const day = plan[index];
+    if (day.recipe !== null) {
+        excluded.add(day.recipe.name.toLowerCase());
+    }
+
+    const recipe =
+        pickRecipe(recipes, day, excluded, others, options, random) ??
+        pickRecipe(recipes, { ...day, quotaTag: null }, excluded, others, options, random) ??
+        day.recipe;
+
+    return plan.map((d, i) => (i === index ? { ...d, recipe } : d));
+}
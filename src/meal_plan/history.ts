@@ -0,0 +1,91 @@
+import moment from 'moment';
+import { get } from 'svelte/store';
+import type { Context } from '../context.ts';
+import { LAST_COOKED_FORMAT, METADATA_KEYS } from '../recipe/metadata.ts';
+import { AppendMarkdownExt } from '../utils/filesystem.ts';
+import { type CalendarItem, extractDailyRecipes } from './calendar_data.ts';
+
+export interface RecipeHistory {
+    count: number; // How many times the recipe has been planned
+    lastPlanned: moment.Moment;
+}
+
+/**
+ * Work out how often each recipe has been planned and when it was last planned
+ * Days after today are left out, they haven't been eaten yet
+ * @returns A map of lowercase recipe name to its history, recipes that were never planned are left out
+ */
+export function BuildMealHistory(dailyItems: Map<string, CalendarItem[]>, today: moment.Moment = moment()): Map<string, RecipeHistory> {
+    const todayKey = today.format('YYYY-MM-DD');
+    const history = new Map<string, RecipeHistory>();
+
+    for (const [dateKey, items] of dailyItems) {
+        if (dateKey > todayKey) {
+            continue;
+        }
+
+        for (const item of items) {
+            // Leftovers are the same batch as the day they were cooked
+            if (!item.isRecipe || item.leftovers) {
+                continue;
+            }
+
+            // Links can include a folder path, recipes are looked up by their note name
+            const name = item.name.split('/').pop()?.toLowerCase() ?? '';
+            const date = moment(dateKey, 'YYYY-MM-DD');
+            const existing = history.get(name);
+            if (existing === undefined) {
+                history.set(name, { count: 1, lastPlanned: date });
+            } else {
+                existing.count++;
+                if (date.isAfter(existing.lastPlanned)) {
+                    existing.lastPlanned = date;
+                }
+            }
+        }
+    }
+
+    return history;
+}
+
+/**
+ * Build the history from every week in the meal plan note
+ */
+export async function LoadMealHistory(ctx: Context): Promise<Map<string, RecipeHistory>> {
+    const settings = get(ctx.settings);
+    const file = ctx.app.vault.getFileByPath(AppendMarkdownExt(settings.mealPlanNote));
+    if (file === null) {
+        return new Map();
+    }
+
+    return BuildMealHistory(await extractDailyRecipes(ctx, file, settings.startOfWeek, settings.mealSlots));
+}
+
+/**
+ * Describe a recipe's history for display, e.g. "Planned 3 times, last on Monday, January 8th 2024"
+ */
+export function formatHistory(history: RecipeHistory | undefined): string {
+    if (history === undefined) {
+        return 'Never planned';
+    }
+
+    const times = history.count === 1 ? 'once' : `${history.count} times`;
+    return `Planned ${times}, last on ${history.lastPlanned.format('dddd, MMMM Do YYYY')}`;
+}
+
+/**
+ * Write the last planned date to the `last_cooked` frontmatter of each recipe planned since it was last cooked
+ */
+export async function UpdateLastCooked(ctx: Context, history: Map<string, RecipeHistory>) {
+    for (const recipe of get(ctx.recipes)) {
+        const lastPlanned = history.get(recipe.name.toLowerCase())?.lastPlanned;
+        if (lastPlanned === undefined || (recipe.lastCooked !== null && !lastPlanned.isAfter(recipe.lastCooked, 'day'))) {
+            continue;
+        }
+
+        await ctx.app.fileManager.processFrontMatter(recipe.path, (frontmatter) => {
+            frontmatter[METADATA_KEYS.lastCooked] = lastPlanned.format(LAST_COOKED_FORMAT);
+        });
+        recipe.lastCooked = lastPlanned.clone();
+    }
+}
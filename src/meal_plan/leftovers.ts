@@ -0,0 +1,71 @@
+import type { CalendarItem } from './calendar_data.ts';
+
+/**
+ * Regex source for the prefix of a leftovers entry, e.g. `Leftovers: [[Butter Chicken]]`
+ */
+export const LEFTOVERS_PREFIX = String.raw`Leftovers:[ \t]*`;
+
+const leftoversPrefix = new RegExp(`^${LEFTOVERS_PREFIX}`, 'i');
+const leftoversBeforeLink = new RegExp(`(?:^|\\s)${LEFTOVERS_PREFIX}$`, 'i');
+
+/**
+ * Format a leftovers entry for the meal plan, eating a batch of a recipe cooked on an earlier day
+ */
+export function formatLeftoversEntry(recipeName: string): string {
+    return `Leftovers: [[${recipeName}]]`;
+}
+
+/**
+ * Split the leftovers prefix off an entry
+ * @returns Whether the entry is leftovers, and the text after the prefix
+ */
+export function parseLeftoversPrefix(text: string): { leftovers: boolean; text: string } {
+    const trimmed = text.trimStart();
+    const match = trimmed.match(leftoversPrefix);
+    if (match === null) {
+        return { leftovers: false, text };
+    }
+
+    return { leftovers: true, text: trimmed.slice(match[0].length) };
+}
+
+/**
+ * Whether the link at an offset in the meal plan note is a leftovers entry
+ * Works for both formats, the prefix is the text between the list marker, slot prefix or `<br>` and the link
+ */
+export function isLeftoversLink(content: string, offset: number): boolean {
+    const lineStart = content.lastIndexOf('\n', offset - 1) + 1;
+    const before =
+        content
+            .slice(lineStart, offset)
+            .split(/\||<br\s*\/?>/i)
+            .pop() ?? '';
+    return leftoversBeforeLink.test(before);
+}
+
+/**
+ * Link each leftovers entry to the day its recipe was last planned before it, the day the batch was cooked
+ * @returns The same map, with `leftoversFrom` set on the leftovers entries that have an earlier day
+ */
+export function linkLeftovers(dailyItems: Map<string, CalendarItem[]>): Map<string, CalendarItem[]> {
+    const lastCooked = new Map<string, string>();
+
+    for (const dateKey of [...dailyItems.keys()].sort()) {
+        const items = dailyItems.get(dateKey) ?? [];
+        for (const item of items) {
+            const cooked = item.leftovers ? lastCooked.get(item.name.toLowerCase()) : undefined;
+            if (cooked !== undefined) {
+                item.leftoversFrom = cooked;
+            }
+        }
+
+        // The recipe cooked on the same day as its leftovers isn't the batch they come from
+        for (const item of items) {
+            if (item.isRecipe && !item.leftovers) {
+                lastCooked.set(item.name.toLowerCase(), dateKey);
+            }
+        }
+    }
+
+    return dailyItems;
+}
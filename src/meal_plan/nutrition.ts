@@ -0,0 +1,152 @@
+import type moment from 'moment';
+import type { Recipe } from '../recipe/recipe.ts';
+import type { MealSettings } from '../settings/settings.ts';
+import type { CalendarItem } from './calendar_data.ts';
+import { roundQuantity } from './servings.ts';
+
+export interface Nutrition {
+    calories: number; // kcal
+    protein: number; // g
+    fat: number; // g
+    carbs: number; // g
+}
+
+// Frontmatter keys written by the recipe downloader for each nutrition field
+const FRONTMATTER_KEYS: Record<keyof Nutrition, string> = {
+    calories: 'calories_kcal',
+    protein: 'protein_g',
+    fat: 'fat_g',
+    carbs: 'carbohydrates_g',
+};
+
+export const NUTRITION_FIELDS: { key: keyof Nutrition; label: string; unit: string }[] = [
+    { key: 'calories', label: 'Calories', unit: 'kcal' },
+    { key: 'protein', label: 'Protein', unit: 'g' },
+    { key: 'fat', label: 'Fat', unit: 'g' },
+    { key: 'carbs', label: 'Carbs', unit: 'g' },
+];
+
+export function emptyNutrition(): Nutrition {
+    return { calories: 0, protein: 0, fat: 0, carbs: 0 };
+}
+
+/**
+ * Read the nutrition of one serving from the recipe's frontmatter
+ * Values can be numbers or strings like "350 kcal", missing fields count as 0
+ * @returns The nutrition, or null if the recipe doesn't have any nutrition fields
+ */
+export function parseNutrition(frontmatter: Record<string, unknown>): Nutrition | null {
+    const nutrition = emptyNutrition();
+    let found = false;
+
+    for (const field of NUTRITION_FIELDS) {
+        const value = frontmatter[FRONTMATTER_KEYS[field.key]];
+        const parsed = typeof value === 'number' ? value : typeof value === 'string' ? Number.parseFloat(value) : Number.NaN;
+        if (!Number.isNaN(parsed) && parsed >= 0) {
+            nutrition[field.key] = parsed;
+            found = true;
+        }
+    }
+
+    return found ? nutrition : null;
+}
+
+/**
+ * Add the nutrition of a planned entry to a total
+ * Totals are per person, like the targets, so each entry is one serving no matter how many servings are cooked or the multiplier
+ */
+function addEntryNutrition(total: Nutrition, recipe: Recipe) {
+    if (recipe.nutrition === null) {
+        return;
+    }
+
+    for (const field of NUTRITION_FIELDS) {
+        total[field.key] = roundQuantity(total[field.key] + recipe.nutrition[field.key]);
+    }
+}
+
+/**
+ * Sum the nutrition of every recipe planned for each day, for one person
+ * @returns A map of date string (YYYY-MM-DD) to the day's totals, days without any recipe nutrition are left out
+ */
+export function SumDailyNutrition(dailyItems: Map<string, CalendarItem[]>, recipes: Recipe[]): Map<string, Nutrition> {
+    const byName = new Map(recipes.map((r) => [r.name.toLowerCase(), r]));
+    const daily = new Map<string, Nutrition>();
+
+    for (const [dateKey, items] of dailyItems) {
+        const total = emptyNutrition();
+        let found = false;
+
+        for (const item of items) {
+            // Leftovers count too, each day they're eaten is another serving of the batch and cooking it only counted one
+            if (!item.isRecipe) {
+                continue;
+            }
+
+            // Links can include a folder path, recipes are looked up by their note name
+            const recipe = byName.get(item.name.split('/').pop()?.toLowerCase() ?? '');
+            if (recipe?.nutrition == null) {
+                continue;
+            }
+
+            addEntryNutrition(total, recipe);
+            found = true;
+        }
+
+        if (found) {
+            daily.set(dateKey, total);
+        }
+    }
+
+    return daily;
+}
+
+/**
+ * Sum the daily totals for the 7 days starting at the week start
+ */
+export function SumWeekNutrition(dailyNutrition: Map<string, Nutrition>, weekStart: moment.Moment): Nutrition | null {
+    const total = emptyNutrition();
+    let found = false;
+
+    for (let i = 0; i < 7; i++) {
+        const day = dailyNutrition.get(weekStart.clone().add(i, 'days').format('YYYY-MM-DD'));
+        if (day === undefined) {
+            continue;
+        }
+
+        for (const field of NUTRITION_FIELDS) {
+            total[field.key] = roundQuantity(total[field.key] + day[field.key]);
+        }
+        found = true;
+    }
+
+    return found ? total : null;
+}
+
+/**
+ * The daily targets from the settings, with 0 meaning there is no target
+ */
+export function getDailyTargets(settings: MealSettings): Nutrition {
+    return {
+        calories: settings.dailyCalorieTarget,
+        protein: settings.dailyProteinTarget,
+        fat: settings.dailyFatTarget,
+        carbs: settings.dailyCarbsTarget,
+    };
+}
+
+/**
+ * Format a nutrition total for display, e.g. "Calories: 1850 / 2000 kcal"
+ * @param targets Shown after each value that has a target
+ */
+export function formatNutrition(nutrition: Nutrition, targets: Nutrition | null = null): { text: string; overTarget: boolean }[] {
+    return NUTRITION_FIELDS.map((field) => {
+        const value = Math.round(nutrition[field.key]);
+        const target = targets?.[field.key] ?? 0;
+        if (target <= 0) {
+            return { text: `${field.label}: ${value} ${field.unit}`, overTarget: false };
+        }
+
+        return { text: `${field.label}: ${value} / ${target} ${field.unit}`, overTarget: value > target };
+    });
+}
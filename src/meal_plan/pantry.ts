@@ -0,0 +1,93 @@
+import { get } from 'svelte/store';
+import type { Context } from '../context.ts';
+import type { Ingredient } from '../types.ts';
+import { AppendMarkdownExt } from '../utils/filesystem.ts';
+import { ParseIngredientList } from '../utils/parser.ts';
+import { areUnitsCompatible, convertQuantity } from '../utils/units.ts';
+import { roundQuantity } from './servings.ts';
+
+/**
+ * Read the ingredients listed in the pantry note
+ * @returns The pantry stock, lines that fail to parse are skipped
+ */
+export async function ReadPantry(ctx: Context): Promise<Ingredient[]> {
+    const settings = get(ctx.settings);
+    if (settings.pantryNote.trim() === '') {
+        return [];
+    }
+
+    const file = ctx.app.vault.getFileByPath(AppendMarkdownExt(settings.pantryNote));
+    if (file == null) {
+        return [];
+    }
+
+    const content = await ctx.app.vault.read(file);
+    const lines = content.split('\n').map((l) => l.trim());
+
+    const { ingredients, failures } = ParseIngredientList(lines, settings.advancedIngredientParsing, settings.debugMode);
+    for (const failure of failures) {
+        console.error(`Skipping pantry line '${failure.line}' in ${file.path}: ${failure.error}`);
+    }
+
+    return ingredients;
+}
+
+/**
+ * Subtract the pantry stock from the ingredients needed, leaving out ingredients that are fully covered
+ * The stock is used up as it is subtracted so calling this for several recipes with the same stock won't count it twice
+ * @param stock The pantry stock, modified to hold what is left over
+ * @returns The ingredients still needed
+ */
+export function subtractPantry(ingredients: Ingredient[], stock: Ingredient[]): Ingredient[] {
+    const needed: Ingredient[] = [];
+
+    for (const ingredient of ingredients) {
+        const remaining = structuredClone(ingredient);
+        const description = ingredient.description.toLowerCase();
+
+        for (const item of stock) {
+            if (item.description.toLowerCase() !== description) {
+                continue;
+            }
+
+            // Having any in the pantry is enough when no amount is needed, unless it's all been used up
+            if (remaining.quantity == null) {
+                if (item.quantity !== 0) {
+                    remaining.quantity = 0;
+                    break;
+                }
+                continue;
+            }
+
+            // Stock without a quantity can't be known to cover an amount
+            if (item.quantity == null) {
+                continue;
+            }
+
+            if (!areUnitsCompatible(item, remaining)) {
+                continue;
+            }
+
+            // A range is used against its upper end, so it's only covered once both ends are
+            const upper = remaining.quantity2 ?? remaining.quantity;
+            const available = convertQuantity(item.quantity, item.unitOfMeasureID, remaining.unitOfMeasureID) ?? item.quantity;
+            const used = Math.min(available, upper);
+
+            remaining.quantity = roundQuantity(Math.max(remaining.quantity - used, 0));
+            if (remaining.quantity2 != null) {
+                remaining.quantity2 = roundQuantity(remaining.quantity2 - used);
+            }
+            item.quantity = roundQuantity(item.quantity - (convertQuantity(used, remaining.unitOfMeasureID, item.unitOfMeasureID) ?? used));
+
+            if ((remaining.quantity2 ?? remaining.quantity) <= 0) {
+                break;
+            }
+        }
+
+        if (remaining.quantity == null || (remaining.quantity2 ?? remaining.quantity) > 0) {
+            needed.push(remaining);
+        }
+    }
+
+    return needed;
+}
@@ -5,9 +5,14 @@ import { get } from 'svelte/store';
 import { DAYS_OF_WEEK } from '../constants.ts';
 import type { Context } from '../context.ts';
 import type { Recipe } from '../recipe/recipe.ts';
-import { MealPlanFormat } from '../settings/settings.ts';
+import { MealPlanFormat, type RecurringRule } from '../settings/settings.ts';
 import { AppendMarkdownExt } from '../utils/filesystem.ts';
-import { GetCurrentWeek, GetWeekDateFromMoment, getWeekStartMoment } from '../utils/utils.ts';
+import { escapeRegExp, GetCurrentWeek, GetWeekDateFromMoment, getWeekStartMoment } from '../utils/utils.ts';
+import type { CalendarItem } from './calendar_data.ts';
+import { formatLeftoversEntry, LEFTOVERS_PREFIX } from './leftovers.ts';
+import { RecurringEntriesForWeek } from './recurring.ts';
+import { formatRecipeEntry, MULTIPLIER_SUFFIX } from './servings.ts';
+import { formatSlotEntry, matchSlotHeading, parseSlotPrefix } from './slots.ts';
 
 export function createTableWeekSection(weekDate: string, dayHeaders: string[]): string {
     // Build table header row
@@ -24,7 +29,25 @@ export function createTableWeekSection(weekDate: string, dayHeaders: string[]):
     return `${headerRow}\n${separatorRow}\n${dataRow}`;
 }
 
-export function addRecipeToTable(content: string, weekDate: string, day: string, recipeName: string): string {
+/**
+ * Add a recipe to a day's cell of a table-formatted meal plan
+ * @param slot Meal slot written as a prefix of the entry, e.g. `Dinner: [[Recipe]]`
+ */
+export function addRecipeToTable(
+    content: string,
+    weekDate: string,
+    day: string,
+    recipeName: string,
+    multiplier = 1,
+    slot: string | null = null,
+): string {
+    return addEntryToTable(content, weekDate, day, formatSlotEntry(formatRecipeEntry(recipeName, multiplier), slot));
+}
+
+/**
+ * Add an entry, a recipe link or text, to a day's cell of a table-formatted meal plan
+ */
+function addEntryToTable(content: string, weekDate: string, day: string, entry: string): string {
     const allLines = content.split('\n');
 
     // Find the table header row (should be the first row starting with | and containing "Week Start")
@@ -82,14 +105,13 @@ export function addRecipeToTable(content: string, weekDate: string, day: string,
         cells.push(rawCells[i].trim());
     }
 
-    // Add recipe to the appropriate cell
-    const recipeLink = `[[${recipeName}]]`;
+    // Add the entry to the appropriate cell
     const currentCell = cells[dayIndex];
 
     if (currentCell.length === 0) {
-        cells[dayIndex] = recipeLink;
+        cells[dayIndex] = entry;
     } else {
-        cells[dayIndex] = `${currentCell}<br>${recipeLink}`;
+        cells[dayIndex] = `${currentCell}<br>${entry}`;
     }
 
     // Reconstruct data row with proper spacing
@@ -104,23 +126,87 @@ export function addRecipeToTable(content: string, weekDate: string, day: string,
 
 /**
  * Insert a recipe into meal plan content at the specified week and day
+ * @param slot Meal slot to add the recipe to, or null for the day itself
+ * @param slots The configured meal slots, used to keep slot headings in order
  */
-function insertRecipeIntoContent(content: string, weekDate: string, day: string, recipeName: string): string {
+function insertRecipeIntoContent(
+    content: string,
+    weekDate: string,
+    day: string,
+    recipeName: string,
+    multiplier = 1,
+    slot: string | null = null,
+    slots: string[] = [],
+): string {
+    return insertEntryIntoContent(content, weekDate, day, formatRecipeEntry(recipeName, multiplier), slot, slots);
+}
+
+/**
+ * Insert an entry, a recipe link or text, into meal plan content at the specified week and day
+ */
+export function insertEntryIntoContent(
+    content: string,
+    weekDate: string,
+    day: string,
+    entry: string,
+    slot: string | null,
+    slots: string[],
+): string {
     const header = `Week of ${weekDate}`;
 
     // Detect format: check if content starts with table marker or has list headers
     const isTable = content.trimStart().startsWith('|');
 
     if (isTable) {
-        // Table format: parse table, find correct column, insert recipe
-        return addRecipeToTable(content, weekDate, day, recipeName);
+        // Table format: parse table, find correct column, insert the entry
+        return addEntryToTable(content, weekDate, day, formatSlotEntry(entry, slot));
     }
     // List format: existing logic
     const headerIndex = content.indexOf(header) + header.length;
+    if (slot !== null) {
+        return insertIntoListSlot(content, headerIndex, day, `- ${entry}`, slot, slots);
+    }
+
     const dayHeader = `## ${day}`;
     const dayHeaderIndex = content.indexOf(dayHeader, headerIndex) + dayHeader.length;
-    const recipeLine = `\n- [[${recipeName}]]`;
-    return content.slice(0, dayHeaderIndex) + recipeLine + content.slice(dayHeaderIndex);
+    return `${content.slice(0, dayHeaderIndex)}\n- ${entry}${content.slice(dayHeaderIndex)}`;
+}
+
+/**
+ * Insert a list entry under the `### Slot` heading of a day, adding the heading in the configured slot order if it's missing
+ */
+function insertIntoListSlot(content: string, weekHeaderEnd: number, day: string, entry: string, slot: string, slots: string[]): string {
+    const dayHeader = `## ${day}`;
+    const dayHeaderIndex = content.indexOf(dayHeader, weekHeaderEnd);
+    if (dayHeaderIndex === -1) {
+        return content;
+    }
+
+    // The day's section ends at the next day or week heading
+    const dayStart = dayHeaderIndex + dayHeader.length;
+    const nextHeaderMatch = content.slice(dayStart).match(/\n#{1,2} /);
+    const dayEnd = nextHeaderMatch?.index !== undefined ? dayStart + nextHeaderMatch.index : content.length;
+
+    const slotHeadings = [...content.slice(dayStart, dayEnd).matchAll(/\n### (.+)/g)];
+    const existing = slotHeadings.find((m) => m[1].trim().toLowerCase() === slot.toLowerCase());
+    if (existing?.index !== undefined) {
+        const insertPos = dayStart + existing.index + existing[0].length;
+        return `${content.slice(0, insertPos)}\n${entry}${content.slice(insertPos)}`;
+    }
+
+    // Add the slot heading before the first slot that comes after it
+    const slotOrder = slots.indexOf(slot);
+    const laterSlot = slotHeadings.find((m) => {
+        const other = matchSlotHeading(m[1], slots);
+        return other !== null && slots.indexOf(other) > slotOrder;
+    });
+
+    let insertPos = laterSlot?.index !== undefined ? dayStart + laterSlot.index : dayEnd;
+    if (insertPos === content.length && content.endsWith('\n')) {
+        insertPos -= 1;
+    }
+
+    return `${content.slice(0, insertPos)}\n### ${slot}\n${entry}${content.slice(insertPos)}`;
 }
 
 export async function AddRecipeToMealPlan(ctx: Context, recipe: Recipe, day: string) {
@@ -161,6 +247,7 @@ async function fillMealPlanNote(ctx: Context, filePath: string) {
     const settings = get(ctx.settings);
     const dayOffset = settings.startOfWeek;
     const weekDate = GetCurrentWeek(dayOffset);
+    const weekStart = getWeekStartMoment(momentLib(), dayOffset);
     const header = `Week of ${weekDate}`;
 
     const dayHeaders: string[] = [];
@@ -170,6 +257,30 @@ async function fillMealPlanNote(ctx: Context, filePath: string) {
         dayHeaders.push(DAYS_OF_WEEK[pos]);
     }
 
+    // Add the current week in the configured format
+    const addWeek = (content: string): string => {
+        if (settings.mealPlanFormat === MealPlanFormat.Table) {
+            // Check if a table already exists
+            if (content.trimStart().startsWith('|')) {
+                // Add a new row to existing table
+                const lines = content.split('\n');
+                // Find where to insert (after separator row, which is line 1)
+                // Insert at line 2 (after header and separator)
+                const newRow = `| ${weekDate} |${Array(dayHeaders.length).fill(' ').join('|')}|`;
+                lines.splice(2, 0, newRow);
+                return lines.join('\n');
+            }
+
+            // Create new table
+            const weekSection = createTableWeekSection(weekDate, dayHeaders);
+            return `${weekSection}\n${content}`;
+        }
+
+        // List format: add ## prefix to day headers
+        const weekSection = `# ${header}\n${dayHeaders.map((d) => `## ${d}`).join('\n')}`;
+        return `${weekSection}\n${content}`;
+    };
+
     const file = ctx.app.vault.getFileByPath(filePath);
     if (file != null) {
         ctx.app.vault.process(file, (content) => {
@@ -178,26 +289,7 @@ async function fillMealPlanNote(ctx: Context, filePath: string) {
                 return content;
             }
 
-            if (settings.mealPlanFormat === MealPlanFormat.Table) {
-                // Check if a table already exists
-                if (content.trimStart().startsWith('|')) {
-                    // Add a new row to existing table
-                    const lines = content.split('\n');
-                    // Find where to insert (after separator row, which is line 1)
-                    // Insert at line 2 (after header and separator)
-                    const newRow = `| ${weekDate} |${Array(dayHeaders.length).fill(' ').join('|')}|`;
-                    lines.splice(2, 0, newRow);
-                    return lines.join('\n');
-                } else {
-                    // Create new table
-                    const weekSection = createTableWeekSection(weekDate, dayHeaders);
-                    return `${weekSection}\n${content}`;
-                }
-            } else {
-                // List format: add ## prefix to day headers
-                const weekSection = `# ${header}\n${dayHeaders.map((d) => `## ${d}`).join('\n')}`;
-                return `${weekSection}\n${content}`;
-            }
+            return addRecurringEntries(addWeek(content), weekStart, dayOffset, settings.recurringRules, settings.mealSlots);
         });
     }
 }
@@ -213,8 +305,17 @@ async function createMealPlanNote(app: App, filePath: string) {
 
 /**
  * Add a recipe to the meal plan for a specific date
+ * @param multiplier Servings multiplier written after the recipe link, omitted when 1
+ * @param slot Meal slot (breakfast, dinner, ...) to add the recipe to, or null for the day itself
  */
-export async function AddRecipeToMealPlanByDate(ctx: Context, recipe: Recipe, date: moment.Moment, day: string) {
+export async function AddRecipeToMealPlanByDate(
+    ctx: Context,
+    recipe: Recipe,
+    date: moment.Moment,
+    day: string,
+    multiplier = 1,
+    slot: string | null = null,
+) {
     let filePath = get(ctx.settings).mealPlanNote;
     if (!filePath.endsWith('.md')) {
         filePath += '.md';
@@ -228,7 +329,9 @@ export async function AddRecipeToMealPlanByDate(ctx: Context, recipe: Recipe, da
 
     const file = ctx.app.vault.getFileByPath(filePath);
     if (file != null) {
-        file.vault.process(file, (content) => insertRecipeIntoContent(content, weekDate, day, recipe.name));
+        await file.vault.process(file, (content) =>
+            insertRecipeIntoContent(content, weekDate, day, recipe.name, multiplier, slot, settings.mealSlots),
+        );
     }
 }
 
@@ -237,15 +340,6 @@ export async function AddRecipeToMealPlanByDate(ctx: Context, recipe: Recipe, da
  */
 async function fillMealPlanNoteForDate(ctx: Context, filePath: string, date: moment.Moment) {
     const settings = get(ctx.settings);
-    const dayOffset = settings.startOfWeek;
-    const weekDate = GetWeekDateFromMoment(date, dayOffset);
-    const header = `Week of ${weekDate}`;
-
-    const dayHeaders: string[] = [];
-    for (let i = 0; i < DAYS_OF_WEEK.length; ++i) {
-        const pos = (i + dayOffset) % DAYS_OF_WEEK.length;
-        dayHeaders.push(DAYS_OF_WEEK[pos]);
-    }
 
     // Create file if it doesn't exist
     await createMealPlanNote(ctx.app, filePath);
@@ -253,31 +347,77 @@ async function fillMealPlanNoteForDate(ctx: Context, filePath: string, date: mom
     const file = ctx.app.vault.getFileByPath(filePath);
     if (file != null) {
         await ctx.app.vault.process(file, (content) => {
-            // Check if this week already exists
-            if (content.includes(weekDate)) {
+            const updated = ensureWeekInContent(content, date, settings.startOfWeek, settings.mealPlanFormat);
+            if (updated === content) {
                 return content;
             }
 
-            if (settings.mealPlanFormat === MealPlanFormat.Table) {
-                // Check if a table already exists
-                if (content.trimStart().startsWith('|')) {
-                    // Add a new row to existing table at the appropriate position
-                    content = addWeekRowToTable(content, weekDate, dayHeaders, date, dayOffset);
-                } else {
-                    // Create new table
-                    const weekSection = createTableWeekSection(weekDate, dayHeaders);
-                    return `${weekSection}\n${content}`;
-                }
-            } else {
-                // List format: insert at appropriate position based on date
-                content = addWeekSectionToList(content, header, dayHeaders, date, dayOffset);
-            }
-
-            return content;
+            // The week is new, so it gets the recurring entries
+            const weekStart = getWeekStartMoment(date, settings.startOfWeek);
+            return addRecurringEntries(updated, weekStart, settings.startOfWeek, settings.recurringRules, settings.mealSlots);
         });
     }
 }
 
+/**
+ * Add the entries of the recurring rules to a week of the meal plan content
+ * @param weekStart The first day of the week, which must already be in the content
+ */
+export function addRecurringEntries(
+    content: string,
+    weekStart: moment.Moment,
+    startOfWeek: number,
+    rules: RecurringRule[],
+    slots: string[],
+): string {
+    const weekDate = GetWeekDateFromMoment(weekStart, startOfWeek);
+    const isTable = content.trimStart().startsWith('|');
+
+    // Entries go at the top of a list day or slot, so lists are filled in reverse to keep the rule order
+    const entries = RecurringEntriesForWeek(rules, weekStart);
+    const ordered = isTable ? entries : entries.reverse();
+
+    return ordered.reduce(
+        (updated, { dayName, entry, slot }) => insertEntryIntoContent(updated, weekDate, dayName, entry, slot, slots),
+        content,
+    );
+}
+
+/**
+ * Add a section for the date's week to the meal plan content if it doesn't have one yet, in date order
+ * @param format The format to write a new week in
+ */
+export function ensureWeekInContent(content: string, date: moment.Moment, startOfWeek: number, format: MealPlanFormat): string {
+    const weekDate = GetWeekDateFromMoment(date, startOfWeek);
+    const header = `Week of ${weekDate}`;
+
+    // Check if this week already exists
+    if (content.includes(weekDate)) {
+        return content;
+    }
+
+    const dayHeaders: string[] = [];
+    for (let i = 0; i < DAYS_OF_WEEK.length; ++i) {
+        const pos = (i + startOfWeek) % DAYS_OF_WEEK.length;
+        dayHeaders.push(DAYS_OF_WEEK[pos]);
+    }
+
+    if (format === MealPlanFormat.Table) {
+        // Check if a table already exists
+        if (content.trimStart().startsWith('|')) {
+            // Add a new row to existing table at the appropriate position
+            return addWeekRowToTable(content, weekDate, dayHeaders, date, startOfWeek);
+        }
+
+        // Create new table
+        const weekSection = createTableWeekSection(weekDate, dayHeaders);
+        return `${weekSection}\n${content}`;
+    }
+
+    // List format: insert at appropriate position based on date
+    return addWeekSectionToList(content, header, dayHeaders, date, startOfWeek);
+}
+
 /**
  * Add a week row to the table at the appropriate chronological position
  */
@@ -422,8 +562,9 @@ function parseWeekDateString(dateStr: string, referenceYear?: number): moment.Mo
 
 /**
  * Remove a recipe from the meal plan for a specific date
+ * @param slot Only remove the recipe from this meal slot, or null to remove the first match anywhere in the day
  */
-export async function RemoveRecipeFromMealPlan(ctx: Context, recipeName: string, date: moment.Moment) {
+export async function RemoveRecipeFromMealPlan(ctx: Context, recipeName: string, date: moment.Moment, slot: string | null = null) {
     const settings = get(ctx.settings);
     let filePath = settings.mealPlanNote;
     if (!filePath.endsWith('.md')) {
@@ -439,9 +580,9 @@ export async function RemoveRecipeFromMealPlan(ctx: Context, recipeName: string,
             const isTable = content.trimStart().startsWith('|');
 
             if (isTable) {
-                content = removeRecipeFromTable(content, weekDate, dayName, recipeName);
+                content = removeRecipeFromTable(content, weekDate, dayName, recipeName, slot);
             } else {
-                content = removeRecipeFromList(content, weekDate, dayName, recipeName);
+                content = removeRecipeFromList(content, weekDate, dayName, recipeName, slot);
             }
 
             return content;
@@ -452,7 +593,7 @@ export async function RemoveRecipeFromMealPlan(ctx: Context, recipeName: string,
 /**
  * Remove a recipe from a table-formatted meal plan
  */
-function removeRecipeFromTable(content: string, weekDate: string, day: string, recipeName: string): string {
+function removeRecipeFromTable(content: string, weekDate: string, day: string, recipeName: string, slot: string | null = null): string {
     const allLines = content.split('\n');
 
     // Find the table header row
@@ -505,14 +646,23 @@ function removeRecipeFromTable(content: string, weekDate: string, day: string, r
         cells.push(rawCells[i].trim());
     }
 
-    // Remove recipe from the cell
-    const recipeLink = `[[${recipeName}]]`;
-    const currentCell = cells[dayIndex];
+    // Remove recipe (and its servings multiplier) from the cell
+    const recipePattern = new RegExp(`\\[\\[${escapeRegExp(recipeName)}\\]\\](?:${MULTIPLIER_SUFFIX})?`);
+    const parts = cells[dayIndex].split('<br>');
+    const partIndex = parts.findIndex((part) => {
+        return recipePattern.test(part) && (slot === null || parseSlotPrefix(part, [slot]).slot !== null);
+    });
 
-    if (currentCell.includes(recipeLink)) {
+    if (partIndex !== -1) {
         // Handle both standalone and <br>-separated recipes
-        const newCell = currentCell.replace(`<br>${recipeLink}`, '').replace(`${recipeLink}<br>`, '').replace(recipeLink, '');
-        cells[dayIndex] = newCell.trim();
+        const remaining = parts[partIndex].replace(recipePattern, '').trim();
+        // A prefix like `Dinner:` left on its own is removed with the recipe
+        if (remaining.length > 0 && !/^[^:[\]]*:$/.test(remaining)) {
+            parts[partIndex] = remaining;
+        } else {
+            parts.splice(partIndex, 1);
+        }
+        cells[dayIndex] = parts.join('<br>').trim();
     }
 
     // Reconstruct data row
@@ -525,41 +675,279 @@ function removeRecipeFromTable(content: string, weekDate: string, day: string, r
 /**
  * Remove a recipe from a list-formatted meal plan
  */
-function removeRecipeFromList(content: string, weekDate: string, day: string, recipeName: string): string {
+function removeRecipeFromList(content: string, weekDate: string, day: string, recipeName: string, slot: string | null = null): string {
+    const section = findListDaySection(content, weekDate, day, slot);
+    if (section === null) {
+        return content;
+    }
+
+    const sectionContent = content.slice(section.start, section.end);
+
+    // Remove the recipe line (handles both - [[Recipe]] and - [ ] [[Recipe]] formats, with an optional multiplier)
+    const recipePattern = new RegExp(`\\n- (?:\\[[ x]\\] )?\\[\\[${escapeRegExp(recipeName)}\\]\\](?:${MULTIPLIER_SUFFIX})?`, 'g');
+    const newSectionContent = sectionContent.replace(recipePattern, '');
+
+    return content.slice(0, section.start) + newSectionContent + content.slice(section.end);
+}
+
+/**
+ * Find the content of a day in a list-formatted meal plan, after its `## Day` heading
+ * @param slot Narrow the section down to the slot's `### Slot` heading
+ * @returns The start and end offsets, or null if the week, day or slot isn't in the content
+ */
+function findListDaySection(content: string, weekDate: string, day: string, slot: string | null): { start: number; end: number } | null {
     const header = `Week of ${weekDate}`;
     const headerIndex = content.indexOf(header);
 
     if (headerIndex === -1) {
-        return content;
+        return null;
     }
 
     const dayHeader = `## ${day}`;
     const dayHeaderIndex = content.indexOf(dayHeader, headerIndex);
 
     if (dayHeaderIndex === -1) {
-        return content;
+        return null;
     }
 
     // Find the end of this day's section (next ## header or # header or end of file)
     const nextDayMatch = content.slice(dayHeaderIndex + dayHeader.length).match(/\n## |\n# /);
-    const sectionEnd = nextDayMatch ? dayHeaderIndex + dayHeader.length + (nextDayMatch.index ?? 0) : content.length;
+    let sectionEnd = nextDayMatch ? dayHeaderIndex + dayHeader.length + (nextDayMatch.index ?? 0) : content.length;
+    let sectionStart = dayHeaderIndex + dayHeader.length;
 
-    // Get the section content
-    const sectionStart = dayHeaderIndex + dayHeader.length;
-    const sectionContent = content.slice(sectionStart, sectionEnd);
+    if (slot !== null) {
+        const slotMatch = content.slice(sectionStart, sectionEnd).match(new RegExp(`\\n### ${escapeRegExp(slot)}[ \\t]*(?=\\n|$)`, 'i'));
+        if (slotMatch?.index === undefined) {
+            return null;
+        }
 
-    // Remove the recipe line (handles both - [[Recipe]] and - [ ] [[Recipe]] formats)
-    const recipePattern = new RegExp(`\\n- (?:\\[[ x]\\] )?\\[\\[${escapeRegExp(recipeName)}\\]\\]`, 'g');
-    const newSectionContent = sectionContent.replace(recipePattern, '');
+        sectionStart += slotMatch.index + slotMatch[0].length;
+        const nextHeadingMatch = content.slice(sectionStart, sectionEnd).match(/\n#/);
+        if (nextHeadingMatch?.index !== undefined) {
+            sectionEnd = sectionStart + nextHeadingMatch.index;
+        }
+    }
 
-    return content.slice(0, sectionStart) + newSectionContent + content.slice(sectionEnd);
+    return { start: sectionStart, end: sectionEnd };
 }
 
 /**
- * Escape special regex characters in a string
+ * Move or copy a meal plan entry to another day in a single edit, adding the new day's week when the content doesn't have it yet
+ * The entry keeps its meal slot and servings multiplier, everything else in both days is left as it is
+ * @param copy Leave the entry on its original day too
+ * @param slots The configured meal slots, used to keep slot headings in order
+ * @returns The updated content, or the content unchanged if the entry to move can't be found
  */
-function escapeRegExp(string: string): string {
-    return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+export function moveItemInContent(
+    content: string,
+    item: CalendarItem,
+    from: moment.Moment,
+    to: moment.Moment,
+    copy: boolean,
+    startOfWeek: number,
+    slots: string[] = [],
+): string {
+    if (!copy && from.isSame(to, 'day')) {
+        return content;
+    }
+
+    const isTable = content.trimStart().startsWith('|');
+
+    let updated = content;
+    if (!copy) {
+        const fromWeek = GetWeekDateFromMoment(from, startOfWeek);
+        const fromDay = from.format('dddd');
+        updated = isTable ? removeItemFromTable(updated, fromWeek, fromDay, item) : removeItemFromList(updated, fromWeek, fromDay, item);
+        if (updated === content) {
+            return content;
+        }
+    }
+
+    updated = ensureWeekInContent(updated, to, startOfWeek, isTable ? MealPlanFormat.Table : MealPlanFormat.List);
+
+    return insertEntryIntoContent(
+        updated,
+        GetWeekDateFromMoment(to, startOfWeek),
+        to.format('dddd'),
+        formatItemEntry(item),
+        item.slot ?? null,
+        slots,
+    );
+}
+
+/**
+ * Format a calendar item back into the entry written in the meal plan
+ */
+function formatItemEntry(item: CalendarItem): string {
+    if (item.leftovers) {
+        return formatLeftoversEntry(item.name);
+    }
+
+    return item.isRecipe ? formatRecipeEntry(item.name, item.multiplier ?? 1) : item.name;
+}
+
+/**
+ * Add leftovers of a recipe to the days after it's cooked, one `Leftovers: [[Recipe]]` entry a day
+ * Weeks that aren't in the content yet are added in the content's format
+ * @param date The day the recipe is cooked
+ * @param days How many of the following days get leftovers
+ * @param slot Meal slot to add the leftovers to, or null for the days themselves
+ */
+export function addLeftoversToContent(
+    content: string,
+    recipeName: string,
+    date: moment.Moment,
+    days: number,
+    startOfWeek: number,
+    slot: string | null,
+    slots: string[] = [],
+): string {
+    const isTable = content.trimStart().startsWith('|');
+
+    let updated = content;
+    for (let i = 1; i <= days; i++) {
+        const day = date.clone().add(i, 'days');
+        updated = ensureWeekInContent(updated, day, startOfWeek, isTable ? MealPlanFormat.Table : MealPlanFormat.List);
+        updated = insertEntryIntoContent(
+            updated,
+            GetWeekDateFromMoment(day, startOfWeek),
+            day.format('dddd'),
+            formatLeftoversEntry(recipeName),
+            slot,
+            slots,
+        );
+    }
+
+    return updated;
+}
+
+/**
+ * Plan leftovers of a recipe for the days after it's cooked
+ * @param days How many of the following days get leftovers
+ */
+export async function PlanLeftovers(ctx: Context, recipeName: string, date: moment.Moment, days: number, slot: string | null) {
+    const settings = get(ctx.settings);
+    const file = ctx.app.vault.getFileByPath(AppendMarkdownExt(settings.mealPlanNote));
+    if (file != null) {
+        await ctx.app.vault.process(file, (content) =>
+            addLeftoversToContent(content, recipeName, date, days, settings.startOfWeek, slot, settings.mealSlots),
+        );
+    }
+}
+
+/**
+ * Remove a single entry from a day of the meal plan, e.g. a leftovers entry
+ */
+export async function RemoveMealPlanItem(ctx: Context, item: CalendarItem, date: moment.Moment) {
+    const settings = get(ctx.settings);
+    const file = ctx.app.vault.getFileByPath(AppendMarkdownExt(settings.mealPlanNote));
+    if (file == null) {
+        return;
+    }
+
+    const weekDate = GetWeekDateFromMoment(date, settings.startOfWeek);
+    const day = date.format('dddd');
+    await ctx.app.vault.process(file, (content) =>
+        content.trimStart().startsWith('|')
+            ? removeItemFromTable(content, weekDate, day, item)
+            : removeItemFromList(content, weekDate, day, item),
+    );
+}
+
+/**
+ * Move or copy a meal plan entry to another day
+ * @param copy Leave the entry on its original day too
+ */
+export async function MoveMealPlanItem(ctx: Context, item: CalendarItem, from: moment.Moment, to: moment.Moment, copy: boolean) {
+    const settings = get(ctx.settings);
+    const file = ctx.app.vault.getFileByPath(AppendMarkdownExt(settings.mealPlanNote));
+    if (file != null) {
+        await ctx.app.vault.process(file, (content) =>
+            moveItemInContent(content, item, from, to, copy, settings.startOfWeek, settings.mealSlots),
+        );
+    }
+}
+
+/**
+ * Pattern for a single entry, the recipe link with its multiplier, the leftovers of a recipe or the exact text
+ */
+function itemPattern(item: CalendarItem): string {
+    if (item.leftovers) {
+        return `${LEFTOVERS_PREFIX}\\[\\[${escapeRegExp(item.name)}(?:\\|[^\\]]*)?\\]\\]`;
+    }
+
+    if (item.isRecipe) {
+        return `\\[\\[${escapeRegExp(item.name)}(?:\\|[^\\]]*)?\\]\\](?:${MULTIPLIER_SUFFIX})?`;
+    }
+
+    return escapeRegExp(item.name);
+}
+
+/**
+ * Remove the first line that is exactly the entry from a day of a list-formatted meal plan
+ */
+function removeItemFromList(content: string, weekDate: string, day: string, item: CalendarItem): string {
+    const section = findListDaySection(content, weekDate, day, item.slot ?? null);
+    if (section === null) {
+        return content;
+    }
+
+    const linePattern = new RegExp(`\\n[ \\t]*- (?:\\[[ x]\\] )?${itemPattern(item)}[ \\t]*(?=\\n|$)`);
+    const sectionContent = content.slice(section.start, section.end).replace(linePattern, '');
+
+    return content.slice(0, section.start) + sectionContent + content.slice(section.end);
+}
+
+/**
+ * Remove the first `<br>` separated part of a day's cell that is exactly the entry from a table-formatted meal plan
+ */
+function removeItemFromTable(content: string, weekDate: string, day: string, item: CalendarItem): string {
+    const lines = content.split('\n');
+
+    const headerRowIndex = lines.findIndex((line) => line.trim().startsWith('|') && line.includes('Week Start'));
+    if (headerRowIndex === -1) {
+        return content;
+    }
+
+    const headers = lines[headerRowIndex]
+        .split('|')
+        .map((h) => h.trim())
+        .filter((h) => h.length > 0);
+    const dayIndex = headers.indexOf(day);
+
+    let dataRowIndex = -1;
+    for (let i = headerRowIndex + 2; i < lines.length; i++) {
+        const line = lines[i].trim();
+        if (line.startsWith('|') && line.includes(weekDate)) {
+            dataRowIndex = i;
+            break;
+        }
+    }
+
+    if (dayIndex === -1 || dataRowIndex === -1) {
+        return content;
+    }
+
+    const rawCells = lines[dataRowIndex].split('|');
+    const cells = rawCells.slice(1, rawCells.length - 1).map((c) => c.trim());
+
+    const slot = item.slot ?? null;
+    const entryPattern = new RegExp(`^${itemPattern(item)}\\s*$`);
+    const parts = cells[dayIndex].split('<br>');
+    const partIndex = parts.findIndex((part) => {
+        const parsed = parseSlotPrefix(part, slot !== null ? [slot] : []);
+        return parsed.slot === slot && entryPattern.test(parsed.text.trim());
+    });
+
+    if (partIndex === -1) {
+        return content;
+    }
+
+    parts.splice(partIndex, 1);
+    cells[dayIndex] = parts.join('<br>').trim();
+    lines[dataRowIndex] = `| ${cells.join(' | ')} |`;
+
+    return lines.join('\n');
 }
 
 /**
@@ -647,9 +1035,17 @@ function extractItemsFromListDay(dayContent: string): string[] {
     const items: string[] = [];
     const lines = dayContent.split('\n');
 
+    // Items under a `### Slot` heading get the slot as a prefix
+    let slot: string | null = null;
+
     for (const line of lines) {
         const trimmedLine = line.trim();
 
+        if (trimmedLine.startsWith('### ')) {
+            slot = trimmedLine.slice(4).trim();
+            continue;
+        }
+
         // Check if this is a list item
         if (trimmedLine.startsWith('- ')) {
             let item = trimmedLine.slice(2);
@@ -661,7 +1057,7 @@ function extractItemsFromListDay(dayContent: string): string[] {
 
             item = item.trim();
             if (item.length > 0) {
-                items.push(item);
+                items.push(formatSlotEntry(item, slot));
             }
         }
     }
@@ -673,9 +1069,10 @@ function extractItemsFromListDay(dayContent: string): string[] {
  * Convert meal plan content from table format to list format
  * @param content The table-formatted meal plan content
  * @param dayHeaders Array of day names in the correct order for the list
+ * @param slots The configured meal slots, entries prefixed with one are put under a `### Slot` heading
  * @returns The converted list-formatted content
  */
-export function convertTableToList(content: string, dayHeaders: string[]): string {
+export function convertTableToList(content: string, dayHeaders: string[], slots: string[] = []): string {
     const lines = content.split('\n');
 
     // Find header row to get column positions
@@ -741,7 +1138,18 @@ export function convertTableToList(content: string, dayHeaders: string[]): strin
             if (items.length === 0) {
                 return dayHeader;
             }
-            return `${dayHeader}\n${items.map((item) => `- ${item}`).join('\n')}`;
+
+            // Entries without a slot stay directly under the day, followed by each slot in order
+            const entries = items.map((item) => parseSlotPrefix(item, slots));
+            const lines = entries.filter((e) => e.slot === null).map((e) => `- ${e.text}`);
+            for (const slot of slots) {
+                const slotItems = entries.filter((e) => e.slot === slot);
+                if (slotItems.length > 0) {
+                    lines.push(`### ${slot}`, ...slotItems.map((e) => `- ${e.text}`));
+                }
+            }
+
+            return `${dayHeader}\n${lines.join('\n')}`;
         });
 
         return `${weekHeader}\n${daySections.join('\n')}`;
@@ -832,7 +1240,7 @@ export async function convertMealPlanFormat(ctx: Context, targetFormat: MealPlan
         }
         if (targetFormat === MealPlanFormat.List && currentFormat === 'table') {
             new Notice('Converting meal plan from table to list format');
-            return convertTableToList(content, dayHeaders);
+            return convertTableToList(content, dayHeaders, settings.mealSlots);
         }
         // Format already matches, no conversion needed
         return content;
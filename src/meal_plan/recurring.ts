@@ -0,0 +1,94 @@
+import moment from 'moment';
+import type { RecurringRule } from '../settings/settings.ts';
+import type { CalendarItem } from './calendar_data.ts';
+import { parseMultiplierSuffix } from './servings.ts';
+
+export interface RecurringEntry {
+    date: moment.Moment;
+    dayName: string;
+    entry: string; // As written in the rule, e.g. `[[Pizza]]` or `Eating out`
+    slot: string | null;
+}
+
+/**
+ * Whether a rule puts its entry on a date
+ * The interval is counted in weeks from the first matching weekday on or after the rule's start date
+ */
+export function ruleOccursOn(rule: RecurringRule, date: moment.Moment): boolean {
+    if (rule.entry.trim().length === 0 || date.format('dddd') !== rule.day) {
+        return false;
+    }
+
+    const start = moment(rule.start, 'YYYY-MM-DD', true);
+    const day = date.clone().startOf('day');
+    if (!start.isValid() || day.isBefore(start, 'day')) {
+        return false;
+    }
+
+    const end = moment(rule.end, 'YYYY-MM-DD', true);
+    if (end.isValid() && day.isAfter(end, 'day')) {
+        return false;
+    }
+
+    const weeks = Math.floor(day.diff(start, 'days') / 7);
+    return weeks % Math.max(1, Math.floor(rule.interval)) === 0;
+}
+
+/**
+ * The entries the rules put in the week starting on a date, in the order of the days and then the rules
+ */
+export function RecurringEntriesForWeek(rules: RecurringRule[], weekStart: moment.Moment): RecurringEntry[] {
+    return Array.from({ length: 7 }, (_, i) => weekStart.clone().add(i, 'days')).flatMap((date) =>
+        rules
+            .filter((rule) => ruleOccursOn(rule, date))
+            .map((rule) => ({
+                date,
+                dayName: date.format('dddd'),
+                entry: rule.entry.trim(),
+                slot: rule.slot.length > 0 ? rule.slot : null,
+            })),
+    );
+}
+
+/**
+ * The entries the rules would add to weeks that aren't in the meal plan yet, to show them in the calendar
+ * @param plannedWeeks The weeks already in the meal plan, as the YYYY-MM-DD of their first day
+ * @returns A map of date string (YYYY-MM-DD) to the entries for that day
+ */
+export function RecurringItemsForWeeks(
+    rules: RecurringRule[],
+    plannedWeeks: Set<string>,
+    from: moment.Moment,
+    weeks: number,
+): Map<string, CalendarItem[]> {
+    const items = new Map<string, CalendarItem[]>();
+
+    for (let i = 0; i < weeks; i++) {
+        const weekStart = from.clone().add(i, 'weeks');
+        if (plannedWeeks.has(weekStart.format('YYYY-MM-DD'))) {
+            continue;
+        }
+
+        for (const { date, entry, slot } of RecurringEntriesForWeek(rules, weekStart)) {
+            const dateKey = date.format('YYYY-MM-DD');
+            items.set(dateKey, [...(items.get(dateKey) ?? []), toCalendarItem(entry, slot)]);
+        }
+    }
+
+    return items;
+}
+
+function toCalendarItem(entry: string, slot: string | null): CalendarItem {
+    const link = entry.match(/^\[\[([^\]|]+)(?:\|[^\]]*)?\]\](.*)$/);
+    const item: CalendarItem = link !== null ? { name: link[1], isRecipe: true } : { name: entry, isRecipe: false };
+
+    const multiplier = link !== null ? parseMultiplierSuffix(link[2]) : 1;
+    if (multiplier !== 1) {
+        item.multiplier = multiplier;
+    }
+    if (slot !== null) {
+        item.slot = slot;
+    }
+
+    return item;
+}
@@ -0,0 +1,89 @@
+import type { Ingredient } from '../types.ts';
+
+/**
+ * Regex source for the servings multiplier written directly after a recipe link, e.g. `[[Butter Chicken]] x2`
+ * The multiplier is captured in the first group
+ */
+export const MULTIPLIER_SUFFIX = String.raw`[ \t]*x(\d+(?:\.\d+)?)\b`;
+
+const multiplierSuffix = new RegExp(`^${MULTIPLIER_SUFFIX}`);
+
+/**
+ * Parse the servings multiplier at the start of the text following a recipe link
+ * @returns The multiplier, or 1 when there isn't one
+ */
+export function parseMultiplierSuffix(text: string): number {
+    const match = text.match(multiplierSuffix);
+    if (match === null) {
+        return 1;
+    }
+
+    const multiplier = Number.parseFloat(match[1]);
+    return multiplier > 0 ? multiplier : 1;
+}
+
+/**
+ * Format a recipe link for the meal plan, appending the multiplier only when it isn't 1
+ */
+export function formatRecipeEntry(recipeName: string, multiplier = 1): string {
+    const link = `[[${recipeName}]]`;
+    if (multiplier === 1) {
+        return link;
+    }
+
+    return `${link} x${roundQuantity(multiplier)}`;
+}
+
+/**
+ * Convert a number of servings into a multiplier of the recipe as written
+ * @param baseServings The servings the recipe makes (the `serving_size` frontmatter), assumed to be 1 when unknown
+ */
+export function servingsToMultiplier(servings: number, baseServings: number | null): number {
+    const base = baseServings !== null && baseServings > 0 ? baseServings : 1;
+    return roundQuantity(servings / base);
+}
+
+/**
+ * Parse the `serving_size` frontmatter value, which can be a number or a string like "4 servings"
+ */
+export function parseServingSize(value: unknown): number | null {
+    if (typeof value === 'number') {
+        return value > 0 ? value : null;
+    }
+
+    if (typeof value === 'string') {
+        const parsed = Number.parseFloat(value);
+        return Number.isNaN(parsed) || parsed <= 0 ? null : parsed;
+    }
+
+    return null;
+}
+
+/**
+ * Returns a copy of the ingredient with all of its quantities multiplied
+ */
+export function scaleIngredient(ingredient: Ingredient, multiplier: number): Ingredient {
+    const scaled = structuredClone(ingredient);
+    if (multiplier === 1) {
+        return scaled;
+    }
+
+    if (scaled.quantity !== null && scaled.quantity !== undefined) {
+        scaled.quantity = roundQuantity(scaled.quantity * multiplier);
+    }
+    if (scaled.quantity2 !== null && scaled.quantity2 !== undefined) {
+        scaled.quantity2 = roundQuantity(scaled.quantity2 * multiplier);
+    }
+    if (scaled.altQuantity !== null && scaled.altQuantity !== undefined) {
+        scaled.altQuantity = roundQuantity(scaled.altQuantity * multiplier);
+    }
+
+    return scaled;
+}
+
+/**
+ * Round to 2 decimal places to avoid floating point noise like 0.30000000000000004 ending up in notes
+ */
+export function roundQuantity(quantity: number): number {
+    return Math.round(quantity * 100) / 100;
+}
@@ -1,13 +1,17 @@
 import type { HeadingCache, LinkCache, TFile } from 'obsidian';
 import { get } from 'svelte/store';
-import { Ok, type Result } from 'ts-results-es';
 import type { Context } from '../context.ts';
-import { ShoppingListIgnoreBehaviour } from '../settings/settings.ts';
+import { type MealSettings, ShoppingListLayout, type UnitSystem } from '../settings/settings.ts';
 import type { Ingredient } from '../types.ts';
 import { AppendMarkdownExt } from '../utils/filesystem.ts';
-import { GetIngredientsFromList } from '../utils/parser.ts';
-import type { ErrCtx } from '../utils/result.ts';
-import { formatUnicorn, wildcardToRegex } from '../utils/utils.ts';
+import { ParseIngredient } from '../utils/parser.ts';
+import { areUnitsCompatible, convertQuantity, normalizeIngredient } from '../utils/units.ts';
+import { formatUnicorn, isIgnoredIngredient } from '../utils/utils.ts';
+import { groupByCategory, parseCategoryOverrides } from './categories.ts';
+import { isLeftoversLink } from './leftovers.ts';
+import { ReadPantry, subtractPantry } from './pantry.ts';
+import { parseMultiplierSuffix, roundQuantity, scaleIngredient } from './servings.ts';
+import { slotAtOffset } from './slots.ts';
 import { extractWeeksFromMealPlan, type WeekInfo } from './week_extractor.ts';
 import { WeekSelectorModal } from './week_selector_modal.ts';
 
@@ -63,8 +67,8 @@ export async function AddMealPlanToShoppingList(ctx: Context) {
         return;
     }
 
-    // If only one week, process it directly without showing modal
-    if (weeks.length === 1) {
+    // If only one week, process it directly without showing modal, unless there are meal slots to pick from
+    if (weeks.length === 1 && settings.mealSlots.length === 0) {
         const recipes = await getRecipesForWeek(ctx, mealPlanFile, weeks[0]);
         const shoppingListFilePath = AppendMarkdownExt(settings.shoppingListNote);
         let file = ctx.app.vault.getFileByPath(shoppingListFilePath);
@@ -80,8 +84,8 @@ export async function AddMealPlanToShoppingList(ctx: Context) {
     }
 
     // Multiple weeks - open modal for week selection
-    new WeekSelectorModal(ctx, weeks, async (selectedWeeks) => {
-        await processSelectedWeeks(ctx, mealPlanFile, selectedWeeks);
+    new WeekSelectorModal(ctx, weeks, async (selectedWeeks, selectedSlots) => {
+        await processSelectedWeeks(ctx, mealPlanFile, selectedWeeks, selectedSlots);
     }).open();
 }
 
@@ -96,34 +100,203 @@ export async function AddFileToShoppingList(ctx: Context, recipeFile: TFile) {
         return;
     }
 
-    const newIngredients = getIngredientsRecipe(ctx, recipeFile);
-    await updateShoppingList(ctx, file, newIngredients);
+    const pantry = await ReadPantry(ctx);
+    const newIngredients = subtractPantry(getIngredientsRecipe(ctx, recipeFile), pantry);
+    await updateShoppingList(ctx, file, newIngredients, recipeFile.basename);
 }
 
-async function updateShoppingList(ctx: Context, file: TFile, newIngredients: Ingredient[]) {
+async function updateShoppingList(ctx: Context, file: TFile, newIngredients: Ingredient[], recipeName: string) {
+    const settings = get(ctx.settings);
     const foodListRange = getFoodListRange(ctx, file);
-    const existingIngredients = (await readIngredients(ctx, file, foodListRange)).unwrapOr([] as Ingredient[]);
-    const ingredients = mergeIngredientLists(existingIngredients, newIngredients).sort((a, b) => {
-        return a.description.localeCompare(b.description);
-    });
+    const recipeNames = new Set([...get(ctx.recipes).map((r) => r.name), recipeName]);
 
-    ctx.app.vault.process(file, (data) => {
-        const start = foodListRange.startOffset;
-        const end = foodListRange.endOffset ? foodListRange.endOffset : data.length;
+    if (newIngredients.length === 0) {
+        return;
+    }
 
-        let newContent = start !== 0 ? '\n' : '';
+    // Merge the recipe's own duplicates first, like the same ingredient in two of its groups
+    const ingredients: Ingredient[] = [];
+    for (const ingredient of newIngredients) {
+        mergeIngredient(ingredients, ingredient);
+    }
 
-        for (const i of ingredients) {
-            let formatted = formatUnicorn(`${get(ctx.settings).shoppingListFormat}`, i);
-            formatted = formatted.replaceAll(/\([\s-]*\)/g, '');
-            formatted.trim();
-            newContent += `- [ ] ${formatted}\n`;
+    await ctx.app.vault.process(file, (data) => {
+        const start = foodListRange.startOffset;
+        const end = foodListRange.endOffset ? foodListRange.endOffset : data.length;
+        const section = data.substring(start, end);
+
+        let newContent: string;
+        if (settings.shoppingListLayout === ShoppingListLayout.ByRecipe) {
+            // Each recipe keeps its own section, like the weekly lists, so its amounts aren't mixed into another recipe's
+            const list = section.trimEnd();
+            const separator = list.trim() !== '' ? '\n\n' : start !== 0 ? '\n' : '';
+            const recipe = formatRecipeSection(settings, { recipeName, multiplier: 1, ingredients: newIngredients });
+            newContent = list + separator + recipe.trimEnd() + (section.slice(list.length) || '\n');
+        } else if (section.trim() === '') {
+            newContent = start !== 0 ? '\n' : '';
+            newContent += formatIngredientList(
+                settings,
+                ingredients.map((ingredient) => {
+                    return { ingredient: normalizeIngredient(ingredient, settings.shoppingListUnitSystem), recipeNames: [] };
+                }),
+                2,
+            );
+        } else {
+            newContent = mergeIntoList(settings, section, ingredients, recipeName, recipeNames);
         }
 
         return data.substring(0, start) + newContent + data.substring(end);
     });
 }
 
+interface ListItem {
+    index: number; // Line in the list
+    ingredient: Ingredient;
+    recipeNames: string[] | null; // The recipes noted after a merged ingredient, null when the line doesn't note them
+}
+
+const headingLine = /^(#{1,6})\s+(.*)$/;
+
+/**
+ * Merge ingredients into an existing shopping list, keeping its week and category headings
+ * An ingredient already on the list has its amount added to the first unchecked line with it, the others are added
+ * under their category heading when grouping by category, or above the first heading under Food
+ * @param list The content under the Food heading
+ * @param recipeNames Every recipe name, to tell the recipes noted after a merged ingredient from the ingredient
+ */
+function mergeIntoList(
+    settings: MealSettings,
+    list: string,
+    ingredients: Ingredient[],
+    recipeName: string,
+    recipeNames: Set<string>,
+): string {
+    const lines = list.split('\n');
+    const headings: { index: number; level: number; text: string }[] = [];
+    const items: ListItem[] = [];
+    lines.forEach((line, index) => {
+        const heading = line.match(headingLine);
+        if (heading !== null) {
+            headings.push({ index, level: heading[1].length, text: heading[2].trim() });
+        } else if (line.startsWith('- [ ] ')) {
+            const item = parseListItem(settings, line, recipeNames);
+            if (item !== null) {
+                items.push({ index, ...item });
+            }
+        }
+    });
+
+    const added: AggregatedIngredient[] = [];
+    for (const ingredient of ingredients) {
+        const item = items.find((i) => {
+            return i.ingredient.description === ingredient.description && areUnitsCompatible(i.ingredient, ingredient);
+        });
+        if (item === undefined) {
+            added.push({ ingredient: normalizeIngredient(ingredient, settings.shoppingListUnitSystem), recipeNames: [] });
+            continue;
+        }
+
+        mergeIngredient([item.ingredient], ingredient);
+        if (item.recipeNames !== null && !item.recipeNames.includes(recipeName)) {
+            item.recipeNames.push(recipeName);
+        }
+        item.ingredient = normalizeIngredient(item.ingredient, settings.shoppingListUnitSystem);
+        lines[item.index] = formatIngredientLine(settings, { ingredient: item.ingredient, recipeNames: item.recipeNames ?? [] });
+    }
+
+    const sorted = added.sort((a, b) => a.ingredient.description.localeCompare(b.ingredient.description));
+    const nextHeading = (after: number) => headings.find((h) => h.index > after)?.index ?? lines.length;
+    const insertions: { at: number; lines: string[] }[] = [];
+
+    if (!settings.groupShoppingListByCategory) {
+        insertions.push(insertionAfterList(lines, 0, nextHeading(-1), sorted));
+    } else {
+        const overrides = parseCategoryOverrides(settings.shoppingListCategoryOverrides);
+        const level = headings[headings.length - 1]?.level ?? 2;
+        const end = lastLine(lines, 0, lines.length) + 1;
+
+        for (const { category, items } of groupByCategory(
+            sorted,
+            (i) => i.ingredient.description,
+            overrides,
+            settings.shoppingListCategoryOrder,
+        )) {
+            const heading = headings.find((h) => h.text === category);
+            if (heading !== undefined) {
+                insertions.push(insertionAfterList(lines, heading.index, nextHeading(heading.index), items));
+            } else {
+                // A category the list doesn't have yet goes at the end
+                insertions.push({
+                    at: end,
+                    lines: ['', `${'#'.repeat(level)} ${category}`, '', ...items.map((i) => formatIngredientLine(settings, i))],
+                });
+            }
+        }
+    }
+
+    // Insert from the bottom up so the line numbers stay right, the later of two insertions at one line goes below
+    insertions
+        .map((insertion, order) => ({ ...insertion, order }))
+        .sort((a, b) => b.at - a.at || b.order - a.order)
+        .forEach(({ at, lines: inserted }) => {
+            lines.splice(at, 0, ...inserted);
+        });
+
+    return lines.join('\n');
+
+    function insertionAfterList(lines: string[], from: number, to: number, items: AggregatedIngredient[]) {
+        const formatted = items.map((i) => formatIngredientLine(settings, i));
+        if (formatted.length === 0) {
+            return { at: from, lines: [] };
+        }
+
+        // The first line is the rest of the heading's line when the list starts at a heading
+        const last = lastLine(lines, from, to);
+        const at = last >= from ? last + 1 : Math.min(1, to);
+        const before = at > 0 ? lines[at - 1] : null;
+        if (before !== null && (before.trim() === '' || headingLine.test(before))) {
+            formatted.unshift('');
+        }
+        if (at < lines.length && headingLine.test(lines[at])) {
+            formatted.push('');
+        }
+
+        return { at, lines: formatted };
+    }
+}
+
+/**
+ * The last line that isn't blank in [from, to), or from - 1 when there isn't one
+ */
+function lastLine(lines: string[], from: number, to: number): number {
+    for (let i = to - 1; i >= from; i--) {
+        if (lines[i].trim() !== '') {
+            return i;
+        }
+    }
+    return from - 1;
+}
+
+/**
+ * Parse an unchecked line of the shopping list, splitting off the recipes noted after a merged ingredient
+ */
+function parseListItem(settings: MealSettings, line: string, recipeNames: Set<string>): Omit<ListItem, 'index'> | null {
+    let text = line;
+    let noted: string[] | null = null;
+
+    const suffix = line.match(/^(.*) \(([^()]+)\)$/);
+    if (suffix !== null) {
+        const names = suffix[2].split(', ');
+        if (names.every((n) => recipeNames.has(n))) {
+            text = suffix[1];
+            noted = names;
+        }
+    }
+
+    const ingredient = ParseIngredient(text, settings.advancedIngredientParsing);
+    return ingredient.isOk() ? { ingredient: ingredient.value, recipeNames: noted } : null;
+}
+
 function getFoodListRange(ctx: Context, file: TFile) {
     const metadata = ctx.app.metadataCache.getFileCache(file);
 
@@ -133,13 +306,12 @@ function getFoodListRange(ctx: Context, file: TFile) {
     if (headings) {
         for (const header of headings) {
             if (header.heading === 'Food') {
-                console.error('Found food heading', header);
                 startHeader = header;
                 continue;
             }
 
-            if (startHeader !== null && endHeader === null) {
-                console.error('End header found, ', header);
+            // Headings nested under Food (weeks, recipes, categories) are part of the list
+            if (startHeader !== null && endHeader === null && header.level <= startHeader.level) {
                 endHeader = header;
                 break;
             }
@@ -152,87 +324,52 @@ function getFoodListRange(ctx: Context, file: TFile) {
     return { startOffset, endOffset };
 }
 
-async function readIngredients(
-    ctx: Context,
-    file: TFile,
-    range: { startOffset: number; endOffset: number | undefined },
-): Promise<Result<Ingredient[], ErrCtx>> {
-    const metadata = ctx.app.metadataCache.getFileCache(file);
-    const settings = get(ctx.settings);
-
-    const fileContent = await ctx.app.vault.read(file);
-    const endOffset = range.endOffset ? range.endOffset : fileContent.length;
-
-    const list = metadata?.listItems;
+/**
+ * Add an ingredient to a list, merging it into an existing ingredient with the same description and a compatible unit
+ * @returns The index of the ingredient in the list
+ */
+function mergeIngredient(list: Ingredient[], ingredient: Ingredient): number {
+    const existing = list.findIndex((existing) => {
+        return existing.description === ingredient.description && areUnitsCompatible(existing, ingredient);
+    });
+    if (existing === -1) {
+        list.push(structuredClone(ingredient));
+        return list.length - 1;
+    }
 
-    if (list !== undefined) {
-        return GetIngredientsFromList(
-            list
-                .filter((l) => {
-                    return l.position.start.offset >= range.startOffset && l.position.end.offset <= endOffset;
-                })
-                .map((l) => {
-                    return fileContent.substring(l.position.start.offset, l.position.end.offset);
-                }),
-            settings.advancedIngredientParsing,
-            settings.debugMode,
-        );
+    const target = list[existing];
+    // An ingredient used in more than one group of a recipe, or in different recipes, no longer belongs to either group
+    if (target.group !== ingredient.group) {
+        target.group = null;
     }
 
-    return Ok([] as Ingredient[]);
-}
+    const convert = (quantity: number) => convertQuantity(quantity, ingredient.unitOfMeasureID, target.unitOfMeasureID) ?? quantity;
+    const quantity = ingredient.quantity ?? 0;
 
-function mergeIngredientLists(left: Ingredient[], right: Ingredient[]) {
-    //  Before adding an ingredient check if it's already in the list
-    //  If it is add the quantities together otherwise add it to the list
-    for (const i of right) {
-        const existing = left.findIndex((existing) => {
-            return existing.description === i.description && i.unitOfMeasure === existing.unitOfMeasure;
-        });
-        if (existing === -1) {
-            left.push(structuredClone(i));
-        } else {
-            let raw = left[existing].quantity ?? 0;
-            raw += i.quantity ?? 0;
-            left[existing].quantity = raw;
-        }
+    // The upper ends of ranges are added up too, a single amount counts as both ends of a range
+    if (target.quantity2 != null || ingredient.quantity2 != null) {
+        target.quantity2 = roundQuantity((target.quantity2 ?? target.quantity ?? 0) + convert(ingredient.quantity2 ?? quantity));
     }
-
-    return left;
+    target.quantity = roundQuantity((target.quantity ?? 0) + convert(quantity));
+    return existing;
 }
 
-function getIngredientsRecipe(ctx: Context, recipeNote: TFile) {
+/**
+ * Get the ingredients of a recipe that should go on the shopping list
+ * @param multiplier Servings multiplier applied to every quantity
+ */
+function getIngredientsRecipe(ctx: Context, recipeNote: TFile, multiplier = 1) {
     const r = get(ctx.recipes).find((r) => r.path.path === recipeNote.path);
     if (r === undefined) {
         return [];
     }
 
-    const ignoreList = get(ctx.settings).shoppingListIgnore;
-    const ignoreBehaviour = get(ctx.settings).shoppingListIgnoreBehaviour;
-
-    return r.ingredients.filter((i) => {
-        const desc = i.description.toLowerCase();
-
-        return !ignoreList.some((ignoredRaw) => {
-            const ignored = ignoredRaw.toLowerCase();
-
-            switch (ignoreBehaviour) {
-                case ShoppingListIgnoreBehaviour.Exact:
-                    return desc === ignored;
-
-                case ShoppingListIgnoreBehaviour.Partial:
-                    return desc.includes(ignored);
-
-                case ShoppingListIgnoreBehaviour.Wildcard:
-                    return wildcardToRegex(ignored).test(desc);
-
-                case ShoppingListIgnoreBehaviour.Regex:
-                    return new RegExp(ignored).test(desc);
-                default:
-                    return false;
-            }
-        });
+    const settings = get(ctx.settings);
+    const ingredients = r.ingredients.filter((i) => {
+        return !isIgnoredIngredient(i.description, settings.shoppingListIgnore, settings.shoppingListIgnoreBehaviour);
     });
+
+    return ingredients.map((i) => scaleIngredient(i, multiplier));
 }
 
 // ============================================================================
@@ -241,6 +378,7 @@ function getIngredientsRecipe(ctx: Context, recipeNote: TFile) {
 
 interface RecipeIngredients {
     recipeName: string;
+    multiplier: number;
     ingredients: Ingredient[];
 }
 
@@ -249,15 +387,26 @@ interface WeekIngredients {
     recipes: RecipeIngredients[];
 }
 
+interface AggregatedIngredient {
+    ingredient: Ingredient;
+    recipeNames: string[];
+}
+
 /**
  * Process selected weeks and add to shopping list
+ * @param slotFilter Meal slots to include, with null for entries without a slot, or null to include everything
  */
-export async function processSelectedWeeks(ctx: Context, mealPlanFile: TFile, selectedWeeks: WeekInfo[]) {
+export async function processSelectedWeeks(
+    ctx: Context,
+    mealPlanFile: TFile,
+    selectedWeeks: WeekInfo[],
+    slotFilter: (string | null)[] | null = null,
+) {
     const weekIngredientsGroups: WeekIngredients[] = [];
 
     // Extract ingredients for each selected week, grouped by recipe
     for (const week of selectedWeeks) {
-        const recipes = await getRecipesForWeek(ctx, mealPlanFile, week);
+        const recipes = await getRecipesForWeek(ctx, mealPlanFile, week, slotFilter);
         weekIngredientsGroups.push({
             week,
             recipes,
@@ -271,19 +420,36 @@ export async function processSelectedWeeks(ctx: Context, mealPlanFile: TFile, se
 /**
  * Extract recipe ingredients for a specific week, grouped by recipe
  */
-async function getRecipesForWeek(ctx: Context, file: TFile, week: WeekInfo): Promise<RecipeIngredients[]> {
+async function getRecipesForWeek(
+    ctx: Context,
+    file: TFile,
+    week: WeekInfo,
+    slotFilter: (string | null)[] | null = null,
+): Promise<RecipeIngredients[]> {
     const fileCache = ctx.app.metadataCache.getFileCache(file)!;
-    const links = fileCache.links || [];
+    let links = fileCache.links || [];
     const topLevel = fileCache.headings?.filter((h) => h.level === 1) || [];
 
+    // The content is needed to read the servings multiplier written after each link
+    const content = await ctx.app.vault.read(file);
+
+    // Leftovers come from a batch cooked on an earlier day, its ingredients are already on the list
+    links = links.filter((link) => !isLeftoversLink(content, link.position.start.offset));
+
+    // Leave out links in meal slots that weren't selected
+    if (slotFilter !== null) {
+        const slots = get(ctx.settings).mealSlots;
+        links = links.filter((link) => slotFilter.includes(slotAtOffset(content, link.position.start.offset, slots)));
+    }
+
     let recipes: RecipeIngredients[] = [];
 
     if (topLevel.length > 0) {
         // List format
-        recipes = await getRecipesForWeekListFormat(ctx, file, week, links);
+        recipes = await getRecipesForWeekListFormat(ctx, file, content, week, links);
     } else {
         // Table format
-        recipes = await getRecipesForWeekTableFormat(ctx, file, week, links);
+        recipes = await getRecipesForWeekTableFormat(ctx, file, content, week, links);
     }
 
     return recipes;
@@ -292,7 +458,13 @@ async function getRecipesForWeek(ctx: Context, file: TFile, week: WeekInfo): Pro
 /**
  * Extract ingredients for a week in list format, grouped by recipe
  */
-async function getRecipesForWeekListFormat(ctx: Context, file: TFile, week: WeekInfo, links: LinkCache[]): Promise<RecipeIngredients[]> {
+async function getRecipesForWeekListFormat(
+    ctx: Context,
+    file: TFile,
+    content: string,
+    week: WeekInfo,
+    links: LinkCache[],
+): Promise<RecipeIngredients[]> {
     const recipes: RecipeIngredients[] = [];
 
     for (const link of links) {
@@ -307,10 +479,12 @@ async function getRecipesForWeekListFormat(ctx: Context, file: TFile, week: Week
 
         const recipeFile = ctx.app.metadataCache.getFirstLinkpathDest(link.link, file.path);
         if (recipeFile != null) {
-            const ingredients = getIngredientsRecipe(ctx, recipeFile);
+            const multiplier = parseMultiplierSuffix(content.slice(link.position.end.offset));
+            const ingredients = getIngredientsRecipe(ctx, recipeFile, multiplier);
             if (ingredients.length > 0) {
                 recipes.push({
                     recipeName: recipeFile.basename,
+                    multiplier,
                     ingredients,
                 });
             }
@@ -323,7 +497,13 @@ async function getRecipesForWeekListFormat(ctx: Context, file: TFile, week: Week
 /**
  * Extract ingredients for a week in table format, grouped by recipe
  */
-async function getRecipesForWeekTableFormat(ctx: Context, file: TFile, week: WeekInfo, links: LinkCache[]): Promise<RecipeIngredients[]> {
+async function getRecipesForWeekTableFormat(
+    ctx: Context,
+    file: TFile,
+    content: string,
+    week: WeekInfo,
+    links: LinkCache[],
+): Promise<RecipeIngredients[]> {
     const recipes: RecipeIngredients[] = [];
 
     for (const link of links) {
@@ -334,10 +514,12 @@ async function getRecipesForWeekTableFormat(ctx: Context, file: TFile, week: Wee
         if (linkStart >= week.startOffset && linkEnd <= week.endOffset) {
             const recipeFile = ctx.app.metadataCache.getFirstLinkpathDest(link.link, file.path);
             if (recipeFile != null) {
-                const ingredients = getIngredientsRecipe(ctx, recipeFile);
+                const multiplier = parseMultiplierSuffix(content.slice(linkEnd));
+                const ingredients = getIngredientsRecipe(ctx, recipeFile, multiplier);
                 if (ingredients.length > 0) {
                     recipes.push({
                         recipeName: recipeFile.basename,
+                        multiplier,
                         ingredients,
                     });
                 }
@@ -349,7 +531,7 @@ async function getRecipesForWeekTableFormat(ctx: Context, file: TFile, week: Wee
 }
 
 /**
- * Update shopping list with ingredients grouped by week and recipe
+ * Update shopping list with the ingredients of the selected weeks, laid out according to the shopping list layout setting
  */
 async function updateShoppingListMultiWeek(ctx: Context, weekGroups: WeekIngredients[]) {
     const settings = get(ctx.settings);
@@ -365,39 +547,192 @@ async function updateShoppingListMultiWeek(ctx: Context, weekGroups: WeekIngredi
         return;
     }
 
+    const neededGroups = subtractPantryFromWeeks(weekGroups, await ReadPantry(ctx));
+
     await ctx.app.vault.process(file, (data) => {
         const foodListRange = getFoodListRange(ctx, file);
         const start = foodListRange.startOffset;
         const end = foodListRange.endOffset ? foodListRange.endOffset : data.length;
 
         let newContent = start !== 0 ? '\n' : '';
+        const allRecipes = neededGroups.flatMap((w) => w.recipes);
 
-        // Add each week as a section
-        for (const weekGroup of weekGroups) {
-            // Week header (H2)
-            newContent += `## ${weekGroup.week.displayName}\n\n`;
+        switch (settings.shoppingListLayout) {
+            case ShoppingListLayout.ByWeek:
+                newContent += formatByWeek(settings, neededGroups);
+                break;
+            case ShoppingListLayout.Aggregated:
+                newContent += formatAggregated(settings, allRecipes, 2);
+                break;
+            default:
+                newContent += formatByRecipe(settings, neededGroups);
+                break;
+        }
 
-            // Add each recipe as a subsection
-            for (const recipe of weekGroup.recipes) {
-                // Recipe header (H3)
-                newContent += `### ${recipe.recipeName}\n\n`;
+        return data.substring(0, start) + newContent + data.substring(end);
+    });
+}
 
-                // Sort and format ingredients for this recipe
-                const sortedIngredients = recipe.ingredients.sort((a, b) => {
-                    return a.description.localeCompare(b.description);
-                });
+/**
+ * Subtract the pantry stock from every recipe in order, so the stock is only used once across all the weeks
+ * Recipes with everything already in the pantry are left out
+ */
+function subtractPantryFromWeeks(weekGroups: WeekIngredients[], pantry: Ingredient[]): WeekIngredients[] {
+    return weekGroups.map((weekGroup) => {
+        const recipes = weekGroup.recipes
+            .map((recipe) => {
+                return { ...recipe, ingredients: subtractPantry(recipe.ingredients, pantry) };
+            })
+            .filter((recipe) => recipe.ingredients.length > 0);
+
+        return { week: weekGroup.week, recipes };
+    });
+}
 
-                for (const ingredient of sortedIngredients) {
-                    let formatted = formatUnicorn(settings.shoppingListFormat, ingredient);
-                    formatted = formatted.replaceAll(/\([\s-]*\)/g, '');
-                    formatted = formatted.trim();
-                    newContent += `- [ ] ${formatted}\n`;
-                }
+/**
+ * Format the shopping list as a `## week` / `### recipe` hierarchy, without merging ingredients
+ */
+function formatByRecipe(settings: MealSettings, weekGroups: WeekIngredients[]): string {
+    let content = '';
 
-                newContent += '\n'; // Extra line between recipes
+    // Add each week as a section
+    for (const weekGroup of weekGroups) {
+        // Week header (H2)
+        content += `## ${weekGroup.week.displayName}\n\n`;
+
+        // Add each recipe as a subsection
+        for (const recipe of weekGroup.recipes) {
+            content += formatRecipeSection(settings, recipe);
+        }
+    }
+
+    return content;
+}
+
+/**
+ * Format a recipe's `### recipe` section, with its ingredients under a heading for each of the recipe's ingredient groups
+ */
+function formatRecipeSection(settings: MealSettings, recipe: RecipeIngredients): string {
+    // Recipe header (H3), noting the multiplier when the recipe is scaled
+    const multiplierSuffix = recipe.multiplier !== 1 ? ` x${recipe.multiplier}` : '';
+    let content = `### ${recipe.recipeName}${multiplierSuffix}\n\n`;
+
+    for (const [group, grouped] of groupIngredients(recipe.ingredients)) {
+        const ingredients = grouped.map((i) => {
+            return { ingredient: normalizeIngredient(i, settings.shoppingListUnitSystem), recipeNames: [] };
+        });
+
+        if (group === null) {
+            content += formatIngredientList(settings, ingredients, 4);
+        } else {
+            const spacing = content.endsWith('\n\n') ? '' : '\n';
+            content += `${spacing}#### ${group}\n\n${formatIngredientList(settings, ingredients, 5)}`;
+        }
+    }
+
+    return `${content}\n`; // Extra line between recipes
+}
+
+/**
+ * Split a recipe's ingredients by their group, with the ungrouped ingredients first and the groups in the recipe's order
+ */
+function groupIngredients(ingredients: Ingredient[]): Map<string | null, Ingredient[]> {
+    const groups = new Map<string | null, Ingredient[]>();
+    if (ingredients.some((i) => !i.group)) {
+        groups.set(null, []);
+    }
+
+    for (const ingredient of ingredients) {
+        const group = ingredient.group || null;
+        groups.set(group, [...(groups.get(group) ?? []), ingredient]);
+    }
+
+    return groups;
+}
+
+/**
+ * Format the shopping list with a `## week` heading per week, merging the ingredients of all recipes in that week
+ */
+function formatByWeek(settings: MealSettings, weekGroups: WeekIngredients[]): string {
+    let content = '';
+
+    for (const weekGroup of weekGroups) {
+        content += `## ${weekGroup.week.displayName}\n\n`;
+        content += formatAggregated(settings, weekGroup.recipes, 3);
+        content += '\n';
+    }
+
+    return content;
+}
+
+/**
+ * Format the ingredients of all the recipes as one merged list, noting which recipes need each ingredient
+ * @param headingLevel The level of the category headings, if enabled
+ */
+function formatAggregated(settings: MealSettings, recipes: RecipeIngredients[], headingLevel: number): string {
+    return formatIngredientList(settings, aggregateIngredients(recipes, settings.shoppingListUnitSystem), headingLevel);
+}
+
+/**
+ * Format ingredients as a sorted checklist, under a heading for each store category when grouping by category is enabled
+ * @param headingLevel The level of the category headings
+ */
+function formatIngredientList(settings: MealSettings, ingredients: AggregatedIngredient[], headingLevel: number): string {
+    const sorted = [...ingredients].sort((a, b) => {
+        return a.ingredient.description.localeCompare(b.ingredient.description);
+    });
+
+    const formatLines = (list: AggregatedIngredient[]) => {
+        let content = '';
+        for (const item of list) {
+            content += `${formatIngredientLine(settings, item)}\n`;
+        }
+        return content;
+    };
+
+    if (!settings.groupShoppingListByCategory) {
+        return formatLines(sorted);
+    }
+
+    const overrides = parseCategoryOverrides(settings.shoppingListCategoryOverrides);
+    const groups = groupByCategory(sorted, (i) => i.ingredient.description, overrides, settings.shoppingListCategoryOrder);
+
+    return groups
+        .map(({ category, items }) => {
+            return `${'#'.repeat(headingLevel)} ${category}\n\n${formatLines(items)}`;
+        })
+        .join('\n');
+}
+
+/**
+ * Merge the ingredients of every recipe, keeping track of which recipes each merged ingredient came from
+ */
+function aggregateIngredients(recipes: RecipeIngredients[], unitSystem: UnitSystem): AggregatedIngredient[] {
+    const ingredients: Ingredient[] = [];
+    const recipeNames: string[][] = [];
+
+    for (const recipe of recipes) {
+        for (const ingredient of recipe.ingredients) {
+            const index = mergeIngredient(ingredients, ingredient);
+            recipeNames[index] ??= [];
+            if (!recipeNames[index].includes(recipe.recipeName)) {
+                recipeNames[index].push(recipe.recipeName);
             }
         }
+    }
 
-        return data.substring(0, start) + newContent + data.substring(end);
+    return ingredients.map((ingredient, index) => {
+        return { ingredient: normalizeIngredient(ingredient, unitSystem), recipeNames: recipeNames[index] };
     });
 }
+
+function formatIngredientLine(settings: MealSettings, { ingredient, recipeNames }: AggregatedIngredient): string {
+    // Note which recipes need the ingredient when it has been merged
+    const recipes = recipeNames.length > 0 ? ` (${recipeNames.join(', ')})` : '';
+    return `- [ ] ${formatIngredient(settings, ingredient)}${recipes}`;
+}
+
+function formatIngredient(settings: MealSettings, ingredient: Ingredient): string {
+    const formatted = formatUnicorn(settings.shoppingListFormat, ingredient);
+    return formatted.replaceAll(/\([\s-]*\)/g, '').trim();
+}
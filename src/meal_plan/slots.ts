@@ -0,0 +1,89 @@
+import { escapeRegExp } from '../utils/utils.ts';
+
+/**
+ * Prefix a meal plan entry with its meal slot for the table format, e.g. `Dinner: [[Butter Chicken]]`
+ */
+export function formatSlotEntry(entry: string, slot: string | null): string {
+    if (slot === null || slot.length === 0) {
+        return entry;
+    }
+
+    return `${slot}: ${entry}`;
+}
+
+/**
+ * Split the meal slot prefix off a table format entry
+ * Only the configured slots are recognised, so other text with a colon (like "Note: eating out") is left alone
+ * @returns The slot as written in the settings, and the text after the prefix
+ */
+export function parseSlotPrefix(text: string, slots: string[]): { slot: string | null; text: string } {
+    const trimmed = text.trimStart();
+
+    for (const slot of slots) {
+        const match = trimmed.match(new RegExp(`^${escapeRegExp(slot)}:\\s*`, 'i'));
+        if (match !== null) {
+            return { slot, text: trimmed.slice(match[0].length) };
+        }
+    }
+
+    return { slot: null, text };
+}
+
+/**
+ * Find the configured slot matching a `### Slot` heading in the list format
+ */
+export function matchSlotHeading(heading: string, slots: string[]): string | null {
+    const name = heading.trim().toLowerCase();
+    return slots.find((s) => s.toLowerCase() === name) ?? null;
+}
+
+/**
+ * Find the meal slot of the entry at an offset in the meal plan note
+ * Works for both formats: the `Slot:` prefix of a table cell entry, or the `### Slot` heading above a list item
+ */
+export function slotAtOffset(content: string, offset: number, slots: string[]): string | null {
+    if (slots.length === 0) {
+        return null;
+    }
+
+    const lineStart = content.lastIndexOf('\n', offset - 1) + 1;
+    const linePrefix = content.slice(lineStart, offset);
+
+    if (linePrefix.trimStart().startsWith('|')) {
+        // Table format, the entry starts after the last cell or <br> separator
+        const entry = linePrefix.split(/\||<br\s*\/?>/i).pop() ?? '';
+        return parseSlotPrefix(entry, slots).slot;
+    }
+
+    // List format, look back for the closest heading
+    const before = content.slice(0, lineStart);
+    const headings = [...before.matchAll(/^(#{1,6}) (.+)$/gm)];
+    const lastHeading = headings[headings.length - 1];
+    if (lastHeading === undefined || lastHeading[1].length !== 3) {
+        return null;
+    }
+
+    return matchSlotHeading(lastHeading[2], slots);
+}
+
+/**
+ * Sort items by meal slot in the configured order, keeping entries without a slot first
+ */
+export function compareSlots(a: string | null | undefined, b: string | null | undefined, slots: string[]): number {
+    const rank = (slot: string | null | undefined) => (slot == null ? -1 : slots.indexOf(slot));
+    return rank(a) - rank(b);
+}
+
+/**
+ * Group items under their meal slots in the configured order, items without a slot come first
+ * Slots without any items are left out
+ */
+export function groupBySlot<T extends { slot?: string }>(items: T[], slots: string[]): { slot: string | null; items: T[] }[] {
+    const groups = new Map<string | null, T[]>();
+    for (const item of [...items].sort((a, b) => compareSlots(a.slot, b.slot, slots))) {
+        const slot = item.slot ?? null;
+        groups.set(slot, [...(groups.get(slot) ?? []), item]);
+    }
+
+    return [...groups].map(([slot, groupItems]) => ({ slot, items: groupItems }));
+}
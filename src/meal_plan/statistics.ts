@@ -0,0 +1,82 @@
+import type moment from 'moment';
+import type { Recipe } from '../recipe/recipe.ts';
+import type { CalendarItem } from './calendar_data.ts';
+import { type Nutrition, SumDailyNutrition, SumWeekNutrition } from './nutrition.ts';
+
+export interface StatisticCount {
+    name: string;
+    count: number;
+}
+
+export interface MealStatistics {
+    mealCount: number; // Recipes planned, counting a recipe each time it's planned
+    recipes: StatisticCount[];
+    cuisines: StatisticCount[];
+    tags: StatisticCount[];
+    eatingOutDays: number; // Days with an entry that isn't a recipe, like "Eating out"
+    ingredients: StatisticCount[];
+    weeklyNutrition: { weekStart: moment.Moment; nutrition: Nutrition | null }[];
+}
+
+/**
+ * Count how often each name appears, most common first
+ */
+function countNames(names: string[]): StatisticCount[] {
+    const counts = new Map<string, number>();
+    for (const name of names) {
+        counts.set(name, (counts.get(name) ?? 0) + 1);
+    }
+
+    return [...counts].map(([name, count]) => ({ name, count })).sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+/**
+ * Work out the statistics for the days between two dates
+ * @param weekStarts The start of each week in the meal plan, for the weekly nutrition
+ * @param isStaple Ingredients left out of the ingredient counts, like salt
+ */
+export function BuildMealStatistics(
+    dailyItems: Map<string, CalendarItem[]>,
+    recipes: Recipe[],
+    weekStarts: moment.Moment[],
+    from: moment.Moment,
+    to: moment.Moment,
+    isStaple: (description: string) => boolean,
+): MealStatistics {
+    const fromKey = from.format('YYYY-MM-DD');
+    const toKey = to.format('YYYY-MM-DD');
+    const byName = new Map(recipes.map((r) => [r.name.toLowerCase(), r]));
+
+    const days = new Map([...dailyItems].filter(([dateKey]) => dateKey >= fromKey && dateKey <= toKey));
+    const items = [...days.values()].flat();
+
+    // Links can include a folder path, recipes are looked up by their note name
+    // Leftovers are left out, they're the same batch as the day they were cooked
+    const planned = items.filter((item) => item.isRecipe && !item.leftovers).map((item) => item.name.split('/').pop() ?? '');
+    const known = planned.flatMap((name) => {
+        const recipe = byName.get(name.toLowerCase());
+        return recipe !== undefined ? [recipe] : [];
+    });
+
+    const dailyNutrition = SumDailyNutrition(days, recipes);
+
+    return {
+        mealCount: planned.length,
+        recipes: countNames(planned.map((name) => byName.get(name.toLowerCase())?.name ?? name)),
+        cuisines: countNames(known.flatMap((r) => (r.cuisine !== null ? [r.cuisine] : []))),
+        tags: countNames(known.flatMap((r) => r.tags.map((t) => t.toLowerCase()))),
+        eatingOutDays: [...days.values()].filter((dayItems) => dayItems.some((item) => !item.isRecipe)).length,
+        ingredients: countNames(
+            known.flatMap((r) => {
+                const descriptions = r.ingredients
+                    .filter((i) => i?.description !== undefined && !isStaple(i.description))
+                    .map((i) => i.description.toLowerCase());
+                return [...new Set(descriptions)];
+            }),
+        ),
+        weeklyNutrition: weekStarts
+            .filter((weekStart) => !weekStart.isBefore(from, 'day') && !weekStart.isAfter(to, 'day'))
+            .sort((a, b) => a.valueOf() - b.valueOf())
+            .map((weekStart) => ({ weekStart, nutrition: SumWeekNutrition(dailyNutrition, weekStart) })),
+    };
+}
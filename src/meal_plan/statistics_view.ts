@@ -0,0 +1,61 @@
+import { ItemView, type WorkspaceLeaf } from 'obsidian';
+import { mount, unmount } from 'svelte';
+import type { Context } from '../context.ts';
+import StatisticsView from './StatisticsView.svelte';
+
+export const STATISTICS_VIEW_TYPE = 'meal-plan-statistics';
+
+export class MealStatisticsView extends ItemView {
+    private component: Record<string, any> | null = null;
+    private ctx: Context;
+
+    constructor(leaf: WorkspaceLeaf, ctx: Context) {
+        super(leaf);
+        this.ctx = ctx;
+    }
+
+    getViewType(): string {
+        return STATISTICS_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return 'Meal plan statistics';
+    }
+
+    getIcon(): string {
+        return 'bar-chart-2';
+    }
+
+    async onOpen() {
+        this.contentEl.empty();
+
+        this.component = mount(StatisticsView, {
+            target: this.contentEl,
+            props: {
+                ctx: this.ctx,
+            },
+        });
+    }
+
+    async onClose() {
+        if (this.component) {
+            unmount(this.component);
+        }
+        this.contentEl.empty();
+    }
+}
+
+/**
+ * Show the statistics view, reusing one that's already open
+ */
+export async function OpenStatisticsView(ctx: Context) {
+    const { workspace } = ctx.app;
+
+    let leaf = workspace.getLeavesOfType(STATISTICS_VIEW_TYPE)[0];
+    if (leaf === undefined) {
+        leaf = workspace.getLeaf('tab');
+        await leaf.setViewState({ type: STATISTICS_VIEW_TYPE, active: true });
+    }
+
+    await workspace.revealLeaf(leaf);
+}
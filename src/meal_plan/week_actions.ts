@@ -0,0 +1,270 @@
+import type moment from 'moment';
+import { get } from 'svelte/store';
+import { DAYS_OF_WEEK } from '../constants.ts';
+import type { Context } from '../context.ts';
+import { MealPlanFormat } from '../settings/settings.ts';
+import { AppendMarkdownExt } from '../utils/filesystem.ts';
+import { GetWeekDateFromMoment } from '../utils/utils.ts';
+import { ensureWeekInContent, insertEntryIntoContent } from './plan.ts';
+import { matchSlotHeading, parseSlotPrefix } from './slots.ts';
+
+export type WeekAction = 'copy' | 'swap' | 'clear';
+
+export interface WeekEntry {
+    entry: string; // The entry as written, without the list marker or slot prefix, e.g. `[[Curry]] x2`, followed by any lines nested under it
+    slot: string | null;
+}
+
+/**
+ * Read the entries of each day of a week, in the order they're written
+ * @returns A map of day name to its entries, empty when the week isn't in the content
+ */
+export function readWeekEntries(content: string, weekDate: string, slots: string[]): Map<string, WeekEntry[]> {
+    if (content.trimStart().startsWith('|')) {
+        return readTableWeekEntries(content, weekDate, slots);
+    }
+
+    const days = new Map<string, WeekEntry[]>();
+    const section = findListWeekSection(content, weekDate);
+    if (section === null) {
+        return days;
+    }
+
+    const lines = content.slice(section.start, section.end).split('\n');
+    let last: WeekEntry | null = null;
+    classifyListWeek(lines, slots).forEach((kind, i) => {
+        if (kind.type === 'entry') {
+            last = { entry: lines[i].slice(2).trim(), slot: kind.slot };
+            days.set(kind.day, [...(days.get(kind.day) ?? []), last]);
+        } else if (kind.type === 'nested' && last !== null) {
+            last.entry += `\n${lines[i]}`;
+        }
+    });
+
+    return days;
+}
+
+type ListWeekLine = { type: 'entry'; day: string; slot: string | null } | { type: 'nested' } | { type: 'slot' } | { type: 'other' };
+
+/**
+ * Sort the lines of a list week into the planned entries, the lines nested under an entry, the configured slot headings and everything else
+ * Free text, and list items under a heading that isn't a configured slot, are the user's own and count as everything else
+ */
+function classifyListWeek(lines: string[], slots: string[]): ListWeekLine[] {
+    let day: string | null = null;
+    let slot: string | null = null;
+    let unknownHeading = false;
+    let inEntry = false;
+
+    return lines.map((line): ListWeekLine => {
+        const trimmed = line.trim();
+        if (/^#{1,2} /.test(line)) {
+            const name = line.replace(/^#{1,2} /, '').trim();
+            day = line.startsWith('## ') && DAYS_OF_WEEK.includes(name) ? name : null;
+            slot = null;
+            unknownHeading = false;
+            inEntry = false;
+            return { type: 'other' };
+        }
+
+        if (line.startsWith('### ')) {
+            slot = day !== null ? matchSlotHeading(line.slice(4), slots) : null;
+            unknownHeading = slot === null;
+            inEntry = false;
+            return slot !== null ? { type: 'slot' } : { type: 'other' };
+        }
+
+        if (inEntry && /^\s+\S/.test(line)) {
+            return { type: 'nested' };
+        }
+
+        inEntry = day !== null && !unknownHeading && line.startsWith('- ') && trimmed.length > 2;
+        return inEntry && day !== null ? { type: 'entry', day, slot } : { type: 'other' };
+    });
+}
+
+function readTableWeekEntries(content: string, weekDate: string, slots: string[]): Map<string, WeekEntry[]> {
+    const days = new Map<string, WeekEntry[]>();
+    const row = findTableWeekRow(content.split('\n'), weekDate);
+    if (row === null) {
+        return days;
+    }
+
+    row.headers.forEach((day, i) => {
+        const entries = (row.cells[i] ?? '')
+            .split(/<br\s*\/?>/i)
+            .map((part) => parseSlotPrefix(part, slots))
+            .filter((parsed) => parsed.text.trim().length > 0)
+            .map((parsed) => ({ entry: parsed.text.trim(), slot: parsed.slot }));
+
+        if (i > 0 && entries.length > 0) {
+            days.set(day, entries);
+        }
+    });
+
+    return days;
+}
+
+/**
+ * Remove everything planned in a week, keeping the week and its days
+ * Only the entries and the slot headings left empty go, anything else written in the week stays where it is
+ */
+export function clearWeekInContent(content: string, weekDate: string, slots: string[] = []): string {
+    if (content.trimStart().startsWith('|')) {
+        const lines = content.split('\n');
+        const row = findTableWeekRow(lines, weekDate);
+        if (row === null) {
+            return content;
+        }
+
+        const cells = row.cells.map((cell, i) => (i === 0 ? cell : ''));
+        lines[row.index] = `| ${cells.join(' | ')} |`;
+        return lines.join('\n');
+    }
+
+    const section = findListWeekSection(content, weekDate);
+    if (section === null) {
+        return content;
+    }
+
+    const lines = content.slice(section.start, section.end).split('\n');
+    const kinds = classifyListWeek(lines, slots);
+    const kept = lines.filter((_, i) => {
+        if (kinds[i].type === 'slot') {
+            // Keep a slot heading that still has something under it
+            const next = lines.findIndex((l, j) => j > i && /^#{1,3} /.test(l));
+            const under = lines.slice(i + 1, next === -1 ? lines.length : next);
+            return under.some((l, j) => kinds[i + 1 + j].type === 'other' && l.trim().length > 0);
+        }
+
+        return kinds[i].type === 'other';
+    });
+
+    return content.slice(0, section.start) + kept.join('\n') + content.slice(section.end);
+}
+
+/**
+ * Add entries to a week, each day's entries to the same day of the week
+ * The week is added to the content if it isn't there yet
+ */
+function addWeekEntries(
+    content: string,
+    week: moment.Moment,
+    days: Map<string, WeekEntry[]>,
+    startOfWeek: number,
+    slots: string[],
+): string {
+    const isTable = content.trimStart().startsWith('|');
+    const weekDate = GetWeekDateFromMoment(week, startOfWeek);
+    let updated = ensureWeekInContent(content, week, startOfWeek, isTable ? MealPlanFormat.Table : MealPlanFormat.List);
+
+    for (const [day, entries] of days) {
+        // Entries go at the end of a table cell but at the top of a list day or slot, so lists are filled in reverse to keep the order
+        const ordered = isTable ? entries : [...entries].reverse();
+        for (const { entry, slot } of ordered) {
+            updated = insertEntryIntoContent(updated, weekDate, day, entry, slot, slots);
+        }
+    }
+
+    return updated;
+}
+
+/**
+ * Copy everything planned in one week to another, added to anything already planned in that week
+ */
+export function copyWeekInContent(
+    content: string,
+    from: moment.Moment,
+    to: moment.Moment,
+    startOfWeek: number,
+    slots: string[] = [],
+): string {
+    const entries = readWeekEntries(content, GetWeekDateFromMoment(from, startOfWeek), slots);
+    return addWeekEntries(content, to, entries, startOfWeek, slots);
+}
+
+/**
+ * Swap everything planned in two weeks
+ */
+export function swapWeeksInContent(content: string, a: moment.Moment, b: moment.Moment, startOfWeek: number, slots: string[] = []): string {
+    const weekA = GetWeekDateFromMoment(a, startOfWeek);
+    const weekB = GetWeekDateFromMoment(b, startOfWeek);
+    if (weekA === weekB) {
+        return content;
+    }
+
+    const entriesA = readWeekEntries(content, weekA, slots);
+    const entriesB = readWeekEntries(content, weekB, slots);
+
+    let updated = clearWeekInContent(clearWeekInContent(content, weekA, slots), weekB, slots);
+    updated = addWeekEntries(updated, a, entriesB, startOfWeek, slots);
+    return addWeekEntries(updated, b, entriesA, startOfWeek, slots);
+}
+
+/**
+ * Copy, swap or clear weeks of the meal plan note
+ * @param target The week to copy to or swap with, unused when clearing
+ */
+export async function ApplyWeekAction(ctx: Context, action: WeekAction, week: moment.Moment, target: moment.Moment | null) {
+    const settings = get(ctx.settings);
+    const file = ctx.app.vault.getFileByPath(AppendMarkdownExt(settings.mealPlanNote));
+    if (file == null) {
+        return;
+    }
+
+    await ctx.app.vault.process(file, (content) => {
+        if (action === 'clear') {
+            return clearWeekInContent(content, GetWeekDateFromMoment(week, settings.startOfWeek), settings.mealSlots);
+        }
+
+        if (target === null) {
+            return content;
+        }
+
+        if (action === 'copy') {
+            return copyWeekInContent(content, week, target, settings.startOfWeek, settings.mealSlots);
+        }
+
+        return swapWeeksInContent(content, week, target, settings.startOfWeek, settings.mealSlots);
+    });
+}
+
+/**
+ * Find a week in a list-formatted meal plan, from its `# Week of` heading to the next week
+ */
+function findListWeekSection(content: string, weekDate: string): { start: number; end: number } | null {
+    const match = new RegExp(`^# Week of ${weekDate}[ \\t]*$`, 'm').exec(content);
+    if (match === null) {
+        return null;
+    }
+
+    const nextWeek = content.slice(match.index + match[0].length).search(/\n# /);
+    const end = nextWeek === -1 ? content.length : match.index + match[0].length + nextWeek + 1;
+    return { start: match.index, end };
+}
+
+/**
+ * Find a week's row in a table-formatted meal plan
+ * @returns The row's line index, the header names and the row's cells (the week start first), or null if the week isn't in the table
+ */
+function findTableWeekRow(lines: string[], weekDate: string): { index: number; headers: string[]; cells: string[] } | null {
+    const headerRowIndex = lines.findIndex((line) => line.trim().startsWith('|') && line.includes('Week Start'));
+    if (headerRowIndex === -1) {
+        return null;
+    }
+
+    const headers = lines[headerRowIndex]
+        .split('|')
+        .map((h) => h.trim())
+        .filter((h) => h.length > 0);
+
+    for (let i = headerRowIndex + 2; i < lines.length; i++) {
+        const rawCells = lines[i].trim().split('|');
+        const cells = rawCells.slice(1, rawCells.length - 1).map((c) => c.trim());
+        if (lines[i].trim().startsWith('|') && cells[0] === weekDate) {
+            return { index: i, headers, cells };
+        }
+    }
+
+    return null;
+}
@@ -0,0 +1,44 @@
+import type moment from 'moment';
+import { Modal } from 'obsidian';
+import { mount, unmount } from 'svelte';
+import type { Context } from '../context.ts';
+import WeekActions from './WeekActions.svelte';
+import type { WeekAction } from './week_actions.ts';
+
+export class WeekActionsModal extends Modal {
+    private component: Record<string, any> | null = null;
+    private ctx: Context;
+    private action: WeekAction;
+    private weekStart: moment.Moment | undefined;
+
+    constructor(ctx: Context, action: WeekAction, weekStart?: moment.Moment) {
+        super(ctx.app);
+        this.ctx = ctx;
+        this.action = action;
+        this.weekStart = weekStart;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        this.component = mount(WeekActions, {
+            target: contentEl,
+            props: {
+                ctx: this.ctx,
+                action: this.action,
+                weekStart: this.weekStart,
+                onClose: () => {
+                    this.close();
+                },
+            },
+        });
+    }
+
+    onClose() {
+        if (this.component) {
+            unmount(this.component);
+        }
+        this.contentEl.empty();
+    }
+}
@@ -15,21 +15,28 @@ export interface WeekInfo {
 /**
  * Extracts all weeks from meal plan file, filters to current/future only
  * Handles both list and table formats
+ * @param includePast Keep the weeks before the current week too
  */
-export async function extractWeeksFromMealPlan(ctx: Context, file: TFile, startOfWeek: number): Promise<WeekInfo[]> {
+export async function extractWeeksFromMealPlan(ctx: Context, file: TFile, startOfWeek: number, includePast = false): Promise<WeekInfo[]> {
     const fileCache = ctx.app.metadataCache.getFileCache(file);
     const topLevel = fileCache?.headings?.filter((h) => h.level === 1) || [];
 
     if (topLevel.length > 0) {
-        return extractWeeksFromListFormat(ctx, file, topLevel, startOfWeek);
+        return extractWeeksFromListFormat(ctx, file, topLevel, startOfWeek, includePast);
     }
-    return extractWeeksFromTableFormat(ctx, file, startOfWeek);
+    return extractWeeksFromTableFormat(ctx, file, startOfWeek, includePast);
 }
 
 /**
  * Extract weeks from list format (H1 headings like "# Week of January 5th")
  */
-function extractWeeksFromListFormat(ctx: Context, file: TFile, headings: HeadingCache[], startOfWeek: number): WeekInfo[] {
+function extractWeeksFromListFormat(
+    ctx: Context,
+    file: TFile,
+    headings: HeadingCache[],
+    startOfWeek: number,
+    includePast: boolean,
+): WeekInfo[] {
     const weeks: WeekInfo[] = [];
     const currentWeekStart = getWeekStartMoment(moment(), startOfWeek).startOf('day');
 
@@ -42,7 +49,7 @@ function extractWeeksFromListFormat(ctx: Context, file: TFile, headings: Heading
             const weekDate = parseDateString(dateString, currentWeekStart.year());
 
             // Skip past weeks
-            if (weekDate.isBefore(currentWeekStart)) {
+            if (!includePast && weekDate.isBefore(currentWeekStart)) {
                 continue;
             }
 
@@ -63,7 +70,7 @@ function extractWeeksFromListFormat(ctx: Context, file: TFile, headings: Heading
 /**
  * Extract weeks from table format
  */
-async function extractWeeksFromTableFormat(ctx: Context, file: TFile, startOfWeek: number): Promise<WeekInfo[]> {
+async function extractWeeksFromTableFormat(ctx: Context, file: TFile, startOfWeek: number, includePast: boolean): Promise<WeekInfo[]> {
     const content = await ctx.app.vault.read(file);
     const lines = content.split('\n');
     const weeks: WeekInfo[] = [];
@@ -100,7 +107,7 @@ async function extractWeeksFromTableFormat(ctx: Context, file: TFile, startOfWee
             if (dateString && dateString !== 'Week Start') {
                 const weekDate = parseDateString(dateString, currentWeekStart.year());
 
-                if (!weekDate.isBefore(currentWeekStart)) {
+                if (includePast || !weekDate.isBefore(currentWeekStart)) {
                     weeks.push({
                         dateString,
                         displayName: `Week of ${dateString}`,
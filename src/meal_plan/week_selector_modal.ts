@@ -1,16 +1,19 @@
 import { Modal } from 'obsidian';
 import { mount, unmount } from 'svelte';
+import { get } from 'svelte/store';
 import type { Context } from '../context.ts';
 import WeekSelector from './WeekSelector.svelte';
 import type { WeekInfo } from './week_extractor.ts';
 
 export class WeekSelectorModal extends Modal {
     private component: Record<string, any> | null = null;
+    private ctx: Context;
     private weeks: WeekInfo[];
-    private onConfirm: (selectedWeeks: WeekInfo[]) => void;
+    private onConfirm: (selectedWeeks: WeekInfo[], selectedSlots: (string | null)[] | null) => void;
 
-    constructor(ctx: Context, weeks: WeekInfo[], onConfirm: (selectedWeeks: WeekInfo[]) => void) {
+    constructor(ctx: Context, weeks: WeekInfo[], onConfirm: (selectedWeeks: WeekInfo[], selectedSlots: (string | null)[] | null) => void) {
         super(ctx.app);
+        this.ctx = ctx;
         this.weeks = weeks;
         this.onConfirm = onConfirm;
     }
@@ -23,8 +26,9 @@ export class WeekSelectorModal extends Modal {
             target: contentEl,
             props: {
                 weeks: this.weeks,
-                onConfirm: (selectedWeeks: WeekInfo[]) => {
-                    this.onConfirm(selectedWeeks);
+                mealSlots: get(this.ctx.settings).mealSlots,
+                onConfirm: (selectedWeeks: WeekInfo[], selectedSlots: (string | null)[] | null) => {
+                    this.onConfirm(selectedWeeks, selectedSlots);
                     this.close();
                 },
                 onCancel: () => {
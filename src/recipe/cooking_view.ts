@@ -0,0 +1,89 @@
+import { ItemView, type TFile, type ViewStateResult, type WorkspaceLeaf } from 'obsidian';
+import { mount, unmount } from 'svelte';
+import type { Context } from '../context.ts';
+import CookingMode from './CookingMode.svelte';
+
+export const COOKING_VIEW_TYPE = 'meal-plan-cooking-mode';
+
+interface CookingViewState {
+    file?: string;
+}
+
+export class CookingModeView extends ItemView {
+    private component: Record<string, any> | null = null;
+    private ctx: Context;
+    private file: TFile | null = null;
+
+    constructor(leaf: WorkspaceLeaf, ctx: Context) {
+        super(leaf);
+        this.ctx = ctx;
+    }
+
+    getViewType(): string {
+        return COOKING_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return this.file !== null ? `Cooking ${this.file.basename}` : 'Cooking mode';
+    }
+
+    getIcon(): string {
+        return 'chef-hat';
+    }
+
+    getState(): Record<string, unknown> {
+        return { file: this.file?.path };
+    }
+
+    async setState(state: CookingViewState, result: ViewStateResult) {
+        this.file = state.file !== undefined ? this.app.vault.getFileByPath(state.file) : null;
+        this.render();
+        await super.setState(state, result);
+    }
+
+    async onOpen() {
+        this.render();
+    }
+
+    async onClose() {
+        this.destroy();
+        this.contentEl.empty();
+    }
+
+    private render() {
+        this.destroy();
+        this.contentEl.empty();
+
+        if (this.file === null) {
+            this.contentEl.createEl('p', { text: 'Recipe file not found.', cls: 'cooking-mode-empty' });
+            return;
+        }
+
+        this.component = mount(CookingMode, {
+            target: this.contentEl,
+            props: {
+                ctx: this.ctx,
+                file: this.file,
+            },
+        });
+    }
+
+    private destroy() {
+        if (this.component) {
+            unmount(this.component);
+            this.component = null;
+        }
+    }
+}
+
+/**
+ * Show a recipe in cooking mode, reusing a cooking view that's already open
+ */
+export async function OpenCookingMode(ctx: Context, file: TFile) {
+    const { workspace } = ctx.app;
+
+    const leaf = workspace.getLeavesOfType(COOKING_VIEW_TYPE)[0] ?? workspace.getLeaf('tab');
+    await leaf.setViewState({ type: COOKING_VIEW_TYPE, active: true, state: { file: file.path } });
+
+    await workspace.revealLeaf(leaf);
+}
@@ -0,0 +1,40 @@
+import type { DietProfile, MealSettings } from '../settings/settings.ts';
+import { isIgnoredIngredient } from '../utils/utils.ts';
+import type { Recipe } from './recipe.ts';
+
+/**
+ * Find the recipe's ingredients that the diet profile doesn't allow
+ * @returns The descriptions of the ingredients that break the profile, empty when the recipe fits
+ */
+export function FindDietViolations(recipe: Recipe, profile: DietProfile): string[] {
+    const patterns = profile.patterns.filter((p) => p.trim().length > 0);
+    if (patterns.length === 0) {
+        return [];
+    }
+
+    const violations = new Set<string>();
+    for (const ingredient of recipe.ingredients) {
+        if (ingredient?.description === undefined) {
+            continue;
+        }
+
+        try {
+            if (isIgnoredIngredient(ingredient.description, patterns, profile.behaviour)) {
+                violations.add(ingredient.description);
+            }
+        } catch (e) {
+            // An invalid regex is reported when it is entered in the settings
+            console.error(`Invalid pattern in the ${profile.name} diet profile`, e);
+            return [];
+        }
+    }
+
+    return [...violations];
+}
+
+/**
+ * The diet profile selected as active in the settings
+ */
+export function GetActiveDietProfile(settings: MealSettings): DietProfile | null {
+    return settings.dietProfiles.find((p) => p.name === settings.activeDietProfile) ?? null;
+}
@@ -0,0 +1,195 @@
+import { getFrontMatterInfo, type TFile } from 'obsidian';
+import { singular } from 'pluralize';
+import { Err, Ok, type Result } from 'ts-results-es';
+import type { Context } from '../context.ts';
+import { RecipeFormat } from '../settings/settings.ts';
+import type { Ingredient, ParseErrors } from '../types.ts';
+import { ParseCooklang } from '../utils/cooklang.ts';
+import { ErrCtx } from '../utils/result.ts';
+import { GetRecipeFormat } from './format.ts';
+
+/**
+ * A duration mentioned in a step, e.g. `12 minutes` in "Simmer for 12 minutes"
+ */
+export interface StepDuration {
+    text: string; // As written in the step
+    index: number; // Offset of the text in the step
+    seconds: number;
+}
+
+const directionsHeading = /direction|instruction|method/i;
+const headingLine = /^(#{1,6})\s+(.*)$/;
+const stepPrefix = /^(?:\d+[.)]|[-*+](?: \[[ xX]\])?)\s+/;
+
+const UNIT_SECONDS: [RegExp, number][] = [
+    [/^h/i, 60 * 60],
+    [/^m/i, 60],
+    [/^s/i, 1],
+];
+
+// A number, a fraction like 1/2 or 1 1/2, or a range like 10-12 or 10 to 12, followed by a unit of time
+const durationPattern =
+    /\b(\d+(?:\.\d+)?(?:\s+\d+\/\d+)?|\d+\/\d+)(?:\s*(?:-|–|to)\s*\d+(?:\.\d+)?)?\s*(hours?|hrs?|minutes?|mins?|seconds?|secs?)\b/gi;
+
+/**
+ * The directions of a RecipeMD recipe, everything after the `---` that ends the ingredients
+ */
+export function GetRecipeMDFormatDirections(content: string): Result<string, ParseErrors> {
+    const start = content.indexOf('---');
+    if (start < 0) {
+        return Err('NOT_RECIPE_MD_FORMAT');
+    }
+
+    const end = content.indexOf('---', start + '---'.length);
+    if (end < 0) {
+        return Err('INGREDIENT_SECTION_DOESNT_END');
+    }
+
+    return Ok(content.substring(end + '---'.length).trim());
+}
+
+/**
+ * The directions of a Meal Plan format recipe, between the Directions heading and the next heading of the same level
+ */
+export function GetMealPlanFormatDirections(content: string): Result<string, ParseErrors> {
+    const lines = content.split('\n');
+
+    let start = -1;
+    let level = 0;
+    for (const [i, line] of lines.entries()) {
+        const heading = line.match(headingLine);
+        if (heading === null) {
+            continue;
+        }
+
+        if (start >= 0 && heading[1].length <= level) {
+            return Ok(lines.slice(start, i).join('\n').trim());
+        }
+        if (start < 0 && directionsHeading.test(heading[2])) {
+            start = i + 1;
+            level = heading[1].length;
+        }
+    }
+
+    if (start < 0) {
+        return Err('MISSING_DIRECTIONS_HEADING');
+    }
+
+    return Ok(lines.slice(start).join('\n').trim());
+}
+
+/**
+ * Split directions into steps
+ * Each numbered or bulleted item is a step, lines without a marker continue the step before them,
+ * directions without any list are split into paragraphs instead
+ */
+export function splitSteps(directions: string): string[] {
+    const lines = directions.split('\n').map((l) => l.trim());
+
+    if (!lines.some((l) => stepPrefix.test(l))) {
+        return directions
+            .split(/\n\s*\n/)
+            .map((p) => p.replace(/\s*\n\s*/g, ' ').trim())
+            .filter((p) => p.length > 0 && !headingLine.test(p));
+    }
+
+    const steps: string[] = [];
+    for (const line of lines) {
+        if (line.length === 0 || headingLine.test(line)) {
+            continue;
+        }
+
+        if (stepPrefix.test(line) || steps.length === 0) {
+            steps.push(line.replace(stepPrefix, ''));
+        } else {
+            steps[steps.length - 1] += ` ${line}`;
+        }
+    }
+
+    return steps.filter((s) => s.length > 0);
+}
+
+/**
+ * Find the durations in a step, a range like `10-12 minutes` is timed for the shorter end
+ */
+export function findDurations(step: string): StepDuration[] {
+    const durations: StepDuration[] = [];
+
+    for (const match of step.matchAll(durationPattern)) {
+        const amount = parseAmount(match[1]);
+        const unit = UNIT_SECONDS.find(([pattern]) => pattern.test(match[2]));
+        if (amount === null || amount <= 0 || unit === undefined) {
+            continue;
+        }
+
+        durations.push({ text: match[0], index: match.index, seconds: Math.round(amount * unit[1]) });
+    }
+
+    return durations;
+}
+
+/**
+ * The ingredients mentioned in a step, matched on the ingredient's name or the last word of it, e.g. `onion` for `red onion`
+ */
+export function ingredientsInStep(step: string, ingredients: Ingredient[]): Ingredient[] {
+    const words = singularWords(step);
+    const text = ` ${words.join(' ')} `;
+
+    return ingredients.filter((ingredient) => {
+        const name = singularWords(ingredient.description);
+        if (name.length === 0) {
+            return false;
+        }
+
+        return text.includes(` ${name.join(' ')} `) || words.includes(name[name.length - 1]);
+    });
+}
+
+/**
+ * Format seconds as a countdown, e.g. `1:05:00` or `12:00`
+ */
+export function formatCountdown(seconds: number): string {
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    const s = seconds % 60;
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${m}:${pad(s)}`;
+}
+
+/**
+ * @param format The format of the recipe, detected from the note when not given
+ */
+export async function GetDirections(ctx: Context, recipeFile: TFile, format?: RecipeFormat): Promise<Result<string[], ErrCtx>> {
+    const fileContent = await ctx.app.vault.read(recipeFile);
+    const body = fileContent.substring(getFrontMatterInfo(fileContent).contentStart);
+
+    format ??= GetRecipeFormat(ctx, recipeFile, fileContent).format;
+    if (format === RecipeFormat.Cooklang) {
+        return Ok(ParseCooklang(body).steps);
+    }
+
+    const res = format === RecipeFormat.RecipeMD ? GetRecipeMDFormatDirections(body) : GetMealPlanFormatDirections(fileContent);
+    if (res.isErr()) {
+        return Err(new ErrCtx(recipeFile.path, res.error));
+    }
+
+    return Ok(splitSteps(res.value));
+}
+
+function singularWords(text: string): string[] {
+    return text
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter((w) => w.length > 0)
+        .map((w) => singular(w));
+}
+
+function parseAmount(text: string): number | null {
+    let amount = 0;
+    for (const part of text.trim().split(/\s+/)) {
+        const [num, den] = part.split('/').map(Number);
+        amount += den !== undefined ? num / den : num;
+    }
+
+    return Number.isFinite(amount) ? amount : null;
+}
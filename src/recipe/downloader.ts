@@ -5,6 +5,7 @@ import { Err, Ok, type Result } from 'ts-results-es';
 import type { Context } from '../context.ts';
 import { AppendMarkdownExt, NoteExists, OpenNotePath } from '../utils/filesystem.ts';
 import { ErrCtx } from '../utils/result.ts';
+import { METADATA_KEYS } from './metadata.ts';
 import type { Recipe as MealsRecipe } from './recipe.ts';
 
 class DownloadRecipeModal extends SuggestModal<string> {
@@ -150,10 +151,14 @@ function generateFrontmatter(includeNutritionalInformation: boolean, url: string
 
     const frontmatter: any = { source: url };
     if (recipe.nutritional_information !== undefined) {
+        // The servings are the only recipe metadata recipe-rs provides, the rest of METADATA_KEYS are left for the user to fill in
+        const servings = recipe.nutritional_information.serving_size;
+        if (servings !== undefined) {
+            frontmatter[METADATA_KEYS.servings] = servings;
+        }
+
         if (includeNutritionalInformation) {
             Object.assign(frontmatter, definedProps(recipe.nutritional_information));
-        } else {
-            frontmatter.serving_size = recipe.nutritional_information.serving_size;
         }
     }
 
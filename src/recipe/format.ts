@@ -0,0 +1,109 @@
+import { getFrontMatterInfo, type TFile } from 'obsidian';
+import { get } from 'svelte/store';
+import type { Context } from '../context.ts';
+import { RecipeFormat } from '../settings/settings.ts';
+import { METADATA_KEYS } from './metadata.ts';
+
+/**
+ * Where the format of a recipe came from
+ * - frontmatter: the note's `recipe_format` key
+ * - structure: the note looks more like one format than the others
+ * - setting: the note could be more than one format, so the recipe format setting is used
+ */
+export type RecipeFormatSource = 'frontmatter' | 'structure' | 'setting';
+
+export interface RecipeFormatDetection {
+    format: RecipeFormat;
+    source: RecipeFormatSource;
+}
+
+/**
+ * Parse the `recipe_format` frontmatter, ignoring case, spaces, dashes and underscores, e.g. `meal-plan` or `RecipeMD`
+ */
+export function parseRecipeFormat(value: unknown): RecipeFormat | null {
+    if (typeof value !== 'string') {
+        return null;
+    }
+
+    const normalised = value.toLowerCase().replace(/[\s_-]/g, '');
+    return Object.values(RecipeFormat).find((f) => f.toLowerCase().replace(/\s/g, '') === normalised) ?? null;
+}
+
+/**
+ * Score how much a note's body looks like each format, higher is more likely
+ */
+export function scoreRecipeFormats(body: string): Record<RecipeFormat, number> {
+    const lines = body.split('\n').map((l) => l.trim());
+    const headings = lines.filter((l) => /^#{1,6}\s/.test(l));
+
+    // RecipeMD has its ingredients as a list between two horizontal rules
+    let recipeMD = 0;
+    const breaks = lines.flatMap((l, i) => (/^(?:-{3,}|\*{3,}|_{3,})$/.test(l) ? [i] : []));
+    if (breaks.length >= 2) {
+        recipeMD += 2;
+        if (lines.slice(breaks[0] + 1, breaks[1]).some((l) => /^[-*+]\s/.test(l))) {
+            recipeMD += 1;
+        }
+    }
+    if (/^#\s/.test(lines.find((l) => l.length > 0) ?? '')) {
+        recipeMD += 1;
+    }
+
+    // The Meal Plan format has Ingredients and Directions headings
+    let mealPlan = 0;
+    if (headings.some((h) => /ingredient/i.test(h))) {
+        mealPlan += 2;
+    }
+    if (headings.some((h) => /direction|instruction|method/i.test(h))) {
+        mealPlan += 1;
+    }
+
+    // Cooklang has its ingredients inline, with timers and metadata lines
+    let cooklang = 0;
+    if (/@[^\s@#~{}]+(?:[^@#~{}\n]*)\{[^}\n]*\}/.test(body)) {
+        cooklang += 3;
+    }
+    if (/~[^\s{}]*\{[^}\n]*\}/.test(body)) {
+        cooklang += 1;
+    }
+    if (lines.some((l) => l.startsWith('>>'))) {
+        cooklang += 1;
+    }
+
+    return {
+        [RecipeFormat.RecipeMD]: recipeMD,
+        [RecipeFormat.MealPlan]: mealPlan,
+        [RecipeFormat.Cooklang]: cooklang,
+    };
+}
+
+/**
+ * Work out the format of a recipe note
+ * @param body The note without its frontmatter
+ * @param fallback The format to use when the note doesn't say and its structure is ambiguous
+ */
+export function detectRecipeFormat(
+    body: string,
+    frontmatter: Record<string, unknown> | undefined,
+    fallback: RecipeFormat,
+): RecipeFormatDetection {
+    const explicit = parseRecipeFormat(frontmatter?.[METADATA_KEYS.recipeFormat]);
+    if (explicit !== null) {
+        return { format: explicit, source: 'frontmatter' };
+    }
+
+    const scores = Object.entries(scoreRecipeFormats(body)) as [RecipeFormat, number][];
+    const best = Math.max(...scores.map(([, score]) => score));
+    const leaders = scores.filter(([, score]) => score === best);
+    if (best > 0 && leaders.length === 1) {
+        return { format: leaders[0][0], source: 'structure' };
+    }
+
+    return { format: fallback, source: 'setting' };
+}
+
+export function GetRecipeFormat(ctx: Context, recipeFile: TFile, content: string): RecipeFormatDetection {
+    const frontmatter = ctx.app.metadataCache.getFileCache(recipeFile)?.frontmatter;
+    const body = content.substring(getFrontMatterInfo(content).contentStart);
+    return detectRecipeFormat(body, frontmatter, get(ctx.settings).recipeFormat);
+}
@@ -0,0 +1,90 @@
+import { type CachedMetadata, getFrontMatterInfo, type TFile } from 'obsidian';
+import { get } from 'svelte/store';
+import type { Context } from '../context.ts';
+import type { RecipeFormat } from '../settings/settings.ts';
+import type { ParseErrors } from '../types.ts';
+import { ParseIngredientList } from '../utils/parser.ts';
+import { GetRecipeFormat, type RecipeFormatDetection } from './format.ts';
+import { GetIngredientLines } from './ingredients.ts';
+
+/**
+ * Something wrong with a recipe's ingredients
+ */
+export interface RecipeProblem {
+    error: ParseErrors;
+    line: number | null; // 0-based line of the note, null when the problem isn't on one line
+    text: string | null; // The failing line
+    fix: string;
+}
+
+export interface RecipeDiagnosis {
+    file: TFile;
+    format: RecipeFormatDetection;
+    ingredients: number; // How many ingredients were parsed
+    problems: RecipeProblem[];
+}
+
+export const SUGGESTED_FIXES: Record<ParseErrors, string> = {
+    NO_INGREDIENT: 'Start the ingredient with "- "',
+    INGREDIENT_FAILED_TO_PARSE: 'Write the ingredient as a quantity, unit and name, e.g. "- 200 g flour"',
+    INGREDIENT_EMPTY: 'Remove the empty list item, or write the ingredient in it',
+    NOT_RECIPE_MD_FORMAT:
+        'Put the ingredients between two "---" lines, or add "recipe_format" to the frontmatter if the note is in another format',
+    INGREDIENT_SECTION_DOESNT_END: 'Add a "---" line after the last ingredient',
+    MISSING_INGREDIENT_HEADING: 'Add an "# Ingredients" heading above the ingredients',
+    MISSING_DIRECTIONS_HEADING: 'Add a "# Directions" heading above the directions',
+};
+
+/**
+ * Find every problem with a recipe's ingredients
+ * @param content The whole note, including the frontmatter
+ * @returns How many ingredients were parsed and the problems, a failing line is found in the note by its text
+ */
+export function diagnoseIngredients(
+    content: string,
+    metadata: CachedMetadata,
+    format: RecipeFormat,
+    advancedParsing: boolean,
+): { ingredients: number; problems: RecipeProblem[] } {
+    // Lines are looked for after the frontmatter, so its `---` isn't mistaken for RecipeMD's
+    const bodyLine = content.substring(0, getFrontMatterInfo(content).contentStart).split('\n').length - 1;
+    const findLine = (text: string) => {
+        const index = content.split('\n').findIndex((l, i) => i >= bodyLine && l.trim() === text.trim());
+        return index >= 0 ? index : null;
+    };
+
+    const lines = GetIngredientLines(content, metadata, format);
+    if (lines.isErr()) {
+        // The section starts after the first rule, so an unfinished one is pointed at that rule
+        const line = lines.error === 'INGREDIENT_SECTION_DOESNT_END' ? findLine('---') : null;
+        return { ingredients: 0, problems: [{ error: lines.error, line, text: null, fix: SUGGESTED_FIXES[lines.error] }] };
+    }
+
+    const { ingredients, failures } = ParseIngredientList(lines.value, advancedParsing, false);
+    return {
+        ingredients: ingredients.length,
+        problems: failures.map(({ line, error }) => ({ error, line: findLine(line), text: line.trim(), fix: SUGGESTED_FIXES[error] })),
+    };
+}
+
+export async function DiagnoseRecipe(ctx: Context, file: TFile): Promise<RecipeDiagnosis> {
+    const content = await ctx.app.vault.cachedRead(file);
+    const format = GetRecipeFormat(ctx, file, content);
+    const metadata = ctx.app.metadataCache.getFileCache(file) ?? {};
+
+    return { file, format, ...diagnoseIngredients(content, metadata, format.format, get(ctx.settings).advancedIngredientParsing) };
+}
+
+/**
+ * Diagnose every loaded recipe, the ones with problems first
+ */
+export async function DiagnoseRecipes(ctx: Context): Promise<RecipeDiagnosis[]> {
+    const diagnoses: RecipeDiagnosis[] = [];
+    for (const recipe of get(ctx.recipes)) {
+        diagnoses.push(await DiagnoseRecipe(ctx, recipe.path));
+    }
+
+    return diagnoses.sort(
+        (a, b) => Number(b.problems.length > 0) - Number(a.problems.length > 0) || a.file.path.localeCompare(b.file.path),
+    );
+}
@@ -0,0 +1,61 @@
+import { ItemView, type WorkspaceLeaf } from 'obsidian';
+import { mount, unmount } from 'svelte';
+import type { Context } from '../context.ts';
+import RecipeHealth from './RecipeHealth.svelte';
+
+export const HEALTH_VIEW_TYPE = 'meal-plan-recipe-health';
+
+export class RecipeHealthView extends ItemView {
+    private component: Record<string, any> | null = null;
+    private ctx: Context;
+
+    constructor(leaf: WorkspaceLeaf, ctx: Context) {
+        super(leaf);
+        this.ctx = ctx;
+    }
+
+    getViewType(): string {
+        return HEALTH_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return 'Recipe health';
+    }
+
+    getIcon(): string {
+        return 'stethoscope';
+    }
+
+    async onOpen() {
+        this.contentEl.empty();
+
+        this.component = mount(RecipeHealth, {
+            target: this.contentEl,
+            props: {
+                ctx: this.ctx,
+            },
+        });
+    }
+
+    async onClose() {
+        if (this.component) {
+            unmount(this.component);
+        }
+        this.contentEl.empty();
+    }
+}
+
+/**
+ * Show the recipe health view, reusing one that's already open
+ */
+export async function OpenRecipeHealthView(ctx: Context) {
+    const { workspace } = ctx.app;
+
+    let leaf = workspace.getLeavesOfType(HEALTH_VIEW_TYPE)[0];
+    if (leaf === undefined) {
+        leaf = workspace.getLeaf('tab');
+        await leaf.setViewState({ type: HEALTH_VIEW_TYPE, active: true });
+    }
+
+    await workspace.revealLeaf(leaf);
+}
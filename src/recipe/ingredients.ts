@@ -4,11 +4,17 @@ import { get } from 'svelte/store';
 import { Err, Ok, type Result } from 'ts-results-es';
 import type { Context } from '../context.ts';
 import { RecipeFormat } from '../settings/settings.js';
-import type { Ingredient, ParseErrors } from '../types.ts';
-import { GetIngredientsFromList, GetRecipeMDFormatBoundedList } from '../utils/parser.ts';
+import type { ParseErrors } from '../types.ts';
+import { GetCooklangFormatBoundedList } from '../utils/cooklang.ts';
+import { GetRecipeMDFormatBoundedList, type IngredientList, ParseIngredientList } from '../utils/parser.ts';
 import { ErrCtx } from '../utils/result.ts';
+import { GetRecipeFormat } from './format.ts';
 
-export async function GetIngredients(ctx: Context, recipeFile: TFile): Promise<Result<Ingredient[], ErrCtx>> {
+/**
+ * @param format The format of the recipe, detected from the note when not given
+ * @returns The ingredients that could be parsed and the lines that couldn't, or why the ingredient list couldn't be found
+ */
+export async function GetIngredients(ctx: Context, recipeFile: TFile, format?: RecipeFormat): Promise<Result<IngredientList, ErrCtx>> {
     if (recipeFile === undefined) {
         return Err(new ErrCtx(recipeFile, 'File is undefined'));
     }
@@ -16,29 +22,44 @@ export async function GetIngredients(ctx: Context, recipeFile: TFile): Promise<R
     const settings = get(ctx.settings);
 
     const fileContent = await ctx.app.vault.read(recipeFile);
+    format ??= GetRecipeFormat(ctx, recipeFile, fileContent).format;
+
+    // Cooklang recipes don't need the metadata cache, so they can be kept as .cook files too
     const fileMetadata = ctx.app.metadataCache.getFileCache(recipeFile);
-    if (fileMetadata == null) {
+    if (fileMetadata == null && format !== RecipeFormat.Cooklang) {
         // console.error('Failed to load recipe metadata');
         return Err(new ErrCtx(recipeFile.path, 'Failed to load recipe metadata'));
     }
 
-    let res: Result<string[], ParseErrors>;
-
-    if (settings.recipeFormat === RecipeFormat.RecipeMD) {
-        res = GetRecipeMDFormatBoundedList(GetContentSkipFrontmatter(fileContent));
-    } else {
-        res = GetMealPlanFormatBoundedList(fileContent, fileMetadata);
-    }
-
+    const res = GetIngredientLines(fileContent, fileMetadata ?? {}, format);
     if (res.isErr()) {
         return Err(new ErrCtx(recipeFile.path, res.error));
     }
 
-    const list = res.value.filter((i) => {
-        return i.startsWith('-');
-    });
+    return Ok(ParseIngredientList(res.value, settings.advancedIngredientParsing, ctx.debugMode()));
+}
+
+/**
+ * The lines of a recipe's ingredient list in any format, the ingredients and the headings that group them
+ */
+export function GetIngredientLines(fileContent: string, fileMetadata: CachedMetadata, format: RecipeFormat): Result<string[], ParseErrors> {
+    if (format === RecipeFormat.Cooklang) {
+        return Ok(GetCooklangFormatBoundedList(GetContentSkipFrontmatter(fileContent)));
+    }
 
-    return GetIngredientsFromList(list, settings.advancedIngredientParsing, ctx.debugMode());
+    const res =
+        format === RecipeFormat.RecipeMD
+            ? GetRecipeMDFormatBoundedList(GetContentSkipFrontmatter(fileContent))
+            : GetMealPlanFormatBoundedList(fileContent, fileMetadata);
+
+    // Headings inside the ingredients are kept as the ingredients' groups, but only when ingredients follow them,
+    // a heading like `### Directions` below the ingredients isn't a group
+    return res.map((lines) => {
+        const list = lines.filter((i) => {
+            return i.startsWith('-') || i.startsWith('#');
+        });
+        return list.filter((line, i) => !line.startsWith('#') || list[i + 1]?.startsWith('-'));
+    });
 }
 
 function GetContentSkipFrontmatter(fileContent: string): string {
@@ -59,7 +80,7 @@ function GetMealPlanFormatBoundedList(fileContent: string, fileMetadata: CachedM
                 break;
             }
 
-            if (heading.heading.contains('Ingredient') || heading.heading.contains('ingredient')) {
+            if (heading.heading.includes('Ingredient') || heading.heading.includes('ingredient')) {
                 start = heading.position.end;
                 ingredientHeadingLevel = heading.level;
             }
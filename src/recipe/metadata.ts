@@ -0,0 +1,124 @@
+import moment from 'moment';
+
+/**
+ * Frontmatter keys read into the recipe's metadata
+ *
+ * ```yaml
+ * tags: [quick, weeknight]
+ * cuisine: Indian
+ * course: Dinner
+ * prep_time: 15 min
+ * cook_time: 1h 30m
+ * total_time: 105        # minutes, worked out from the prep and cook time when missing
+ * serving_size: 4
+ * rating: 4.5            # out of 5
+ * last_cooked: 2024-01-08
+ * recipe_format: Cooklang # RecipeMD, Meal Plan or Cooklang, detected from the note when missing
+ * ```
+ */
+export const METADATA_KEYS = {
+    tags: 'tags',
+    cuisine: 'cuisine',
+    course: 'course',
+    prepTime: 'prep_time',
+    cookTime: 'cook_time',
+    totalTime: 'total_time',
+    servings: 'serving_size',
+    rating: 'rating',
+    lastCooked: 'last_cooked',
+    recipeFormat: 'recipe_format',
+} as const;
+
+export const LAST_COOKED_FORMAT = 'YYYY-MM-DD';
+
+/**
+ * Parse the tags frontmatter, either a list or a comma or space separated string, dropping any leading `#`
+ */
+export function parseTags(value: unknown): string[] {
+    let tags: unknown[] = [];
+    if (Array.isArray(value)) {
+        tags = value;
+    } else if (typeof value === 'string') {
+        tags = value.split(/[,\s]+/);
+    }
+
+    return tags
+        .filter((t): t is string => typeof t === 'string')
+        .map((t) => t.trim().replace(/^#/, ''))
+        .filter((t) => t.length > 0);
+}
+
+/**
+ * Parse a text frontmatter field, a list uses its first value
+ */
+export function parseText(value: unknown): string | null {
+    const text = Array.isArray(value) ? value[0] : value;
+    if (typeof text !== 'string' && typeof text !== 'number') {
+        return null;
+    }
+
+    const trimmed = `${text}`.trim();
+    return trimmed.length > 0 ? trimmed : null;
+}
+
+/**
+ * Parse a duration in minutes, e.g. `45`, "45 min", "1h 30m", "1hr30min", "1 hour 15 minutes" or an ISO 8601 duration like "PT1H30M"
+ */
+export function parseDuration(value: unknown): number | null {
+    if (typeof value === 'number') {
+        return value >= 0 ? value : null;
+    }
+
+    if (typeof value !== 'string') {
+        return null;
+    }
+
+    const text = value.trim().toLowerCase();
+    if (/^\d+(\.\d+)?$/.test(text)) {
+        return Number.parseFloat(text);
+    }
+
+    const iso = text.match(/^p(?:(\d+)d)?t?(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+    if (iso !== null && text.length > 1) {
+        const [, days, hours, minutes] = iso.map((n) => Number.parseInt(n ?? '0', 10));
+        return days * 24 * 60 + hours * 60 + minutes;
+    }
+
+    let total = 0;
+    let found = false;
+    for (const match of text.matchAll(/(\d+(?:\.\d+)?)\s*(h|hr|hrs|hours?|m|mins?|minutes?)(?![a-z])/g)) {
+        const amount = Number.parseFloat(match[1]);
+        total += match[2].startsWith('h') ? amount * 60 : amount;
+        found = true;
+    }
+
+    return found ? total : null;
+}
+
+/**
+ * Parse the rating out of 5, accepting numbers and strings like "4.5" or "4/5"
+ */
+export function parseRating(value: unknown): number | null {
+    const rating = typeof value === 'number' ? value : typeof value === 'string' ? Number.parseFloat(value) : Number.NaN;
+    if (Number.isNaN(rating) || rating < 0) {
+        return null;
+    }
+
+    return Math.min(rating, 5);
+}
+
+/**
+ * Parse the last cooked date, written as YYYY-MM-DD
+ */
+export function parseLastCooked(value: unknown): moment.Moment | null {
+    if (value instanceof Date) {
+        return moment(value);
+    }
+
+    if (typeof value !== 'string') {
+        return null;
+    }
+
+    const date = moment(value.trim(), LAST_COOKED_FORMAT, true);
+    return date.isValid() ? date : null;
+}
@@ -1,8 +1,15 @@
-import { Notice, TFile, TFolder } from 'obsidian';
+import type moment from 'moment';
+import { Notice, type TFile } from 'obsidian';
 import { get } from 'svelte/store';
 import type { Context } from '../context.ts';
+import { type Nutrition, parseNutrition } from '../meal_plan/nutrition.ts';
+import { parseServingSize } from '../meal_plan/servings.ts';
+import type { RecipeFormat } from '../settings/settings.ts';
 import type { Ingredient } from '../types.ts';
+import { ErrCtx } from '../utils/result.ts';
+import { GetRecipeFormat } from './format.ts';
 import { GetIngredients } from './ingredients.ts';
+import { METADATA_KEYS, parseDuration, parseLastCooked, parseRating, parseTags, parseText } from './metadata.ts';
 
 export class Recipe {
     name: string;
@@ -10,41 +17,93 @@ export class Recipe {
 
     ingredients: Ingredient[];
 
+    // How many servings the recipe makes as written, from the `serving_size` frontmatter
+    servings: number | null;
+
+    // Nutrition of one serving, from the nutritional frontmatter written by the recipe downloader
+    nutrition: Nutrition | null;
+
+    // Metadata from the frontmatter, see METADATA_KEYS for the keys
+    tags: string[];
+    cuisine: string | null;
+    course: string | null;
+    prepTime: number | null; // Minutes
+    cookTime: number | null; // Minutes
+    totalTime: number | null; // Minutes, the prep and cook time added up when the recipe doesn't say
+    rating: number | null; // Out of 5
+    lastCooked: moment.Moment | null;
+
+    // The format the recipe was parsed as, from the note's frontmatter or structure, see detectRecipeFormat
+    format: RecipeFormat | null;
+
     constructor(path: TFile, name: string = path.basename) {
         this.path = path;
         this.name = name;
         this.ingredients = [];
+        this.servings = null;
+        this.nutrition = null;
+        this.tags = [];
+        this.cuisine = null;
+        this.course = null;
+        this.prepTime = null;
+        this.cookTime = null;
+        this.totalTime = null;
+        this.rating = null;
+        this.lastCooked = null;
+        this.format = null;
     }
 
-    public async fillIngredients(ctx: Context) {
-        const res = await GetIngredients(ctx, this.path);
-        if (res.isErr()) {
-            console.error(`Failed to parse ingredients: ${res.error}`);
-            if (get(ctx.settings).showRecipeParseErrors) {
-                new Notice(`Failed to parse ingredients: ${res.error}`);
-            }
+    public fillMetadata(ctx: Context) {
+        const frontmatter = ctx.app.metadataCache.getFileCache(this.path)?.frontmatter;
+        if (frontmatter === undefined) {
             return;
         }
-        this.ingredients = res.unwrap();
+
+        this.servings = parseServingSize(frontmatter[METADATA_KEYS.servings]);
+        this.nutrition = parseNutrition(frontmatter);
+
+        this.tags = parseTags(frontmatter[METADATA_KEYS.tags]);
+        this.cuisine = parseText(frontmatter[METADATA_KEYS.cuisine]);
+        this.course = parseText(frontmatter[METADATA_KEYS.course]);
+        this.prepTime = parseDuration(frontmatter[METADATA_KEYS.prepTime]);
+        this.cookTime = parseDuration(frontmatter[METADATA_KEYS.cookTime]);
+        this.totalTime = parseDuration(frontmatter[METADATA_KEYS.totalTime]);
+        if (this.totalTime === null && (this.prepTime !== null || this.cookTime !== null)) {
+            this.totalTime = (this.prepTime ?? 0) + (this.cookTime ?? 0);
+        }
+        this.rating = parseRating(frontmatter[METADATA_KEYS.rating]);
+        this.lastCooked = parseLastCooked(frontmatter[METADATA_KEYS.lastCooked]);
     }
-}
 
-export async function GetRecipes(ctx: Context, recipeDir: TFolder) {
-    const recipes: Recipe[] = [];
+    public async fillFormat(ctx: Context) {
+        const detection = GetRecipeFormat(ctx, this.path, await ctx.app.vault.cachedRead(this.path));
+        this.format = detection.format;
+        if (ctx.debugMode()) {
+            console.debug(`Parsing ${this.path.path} as ${detection.format}, from the ${detection.source}`);
+        }
+    }
 
-    for (const file of recipeDir.children) {
-        if (file instanceof TFile) {
-            if (ctx.debugMode()) {
-                console.debug('Parsing recipe:', file.path);
-            }
+    public async fillIngredients(ctx: Context) {
+        const res = await GetIngredients(ctx, this.path, this.format ?? undefined);
+        if (res.isErr()) {
+            reportParseError(ctx, res.error);
+            return;
+        }
 
-            recipes.push(await GetRecipe(ctx, file));
-        } else if (file instanceof TFolder) {
-            recipes.push.apply(recipes, await GetRecipes(ctx, file));
+        // Keep the ingredients that parsed, a bad line only loses itself
+        const { ingredients, failures } = res.value;
+        for (const failure of failures) {
+            reportParseError(ctx, new ErrCtx(`${this.path.path}, '${failure.line}'`, failure.error));
         }
+        this.ingredients = ingredients;
     }
+}
 
-    return recipes;
+function reportParseError(ctx: Context, error: ErrCtx) {
+    console.error(`Failed to parse ingredients: ${error}`);
+    if (get(ctx.settings).showRecipeParseErrors) {
+        new Notice(`Failed to parse ingredients: ${error}`);
+    }
 }
 
 export async function GetRecipe(ctx: Context, file: TFile) {
@@ -52,6 +111,8 @@ export async function GetRecipe(ctx: Context, file: TFile) {
         console.debug('Parsing recipe:', file.path);
     }
     const recipe = new Recipe(file);
+    recipe.fillMetadata(ctx);
+    await recipe.fillFormat(ctx);
     await recipe.fillIngredients(ctx);
     return recipe;
 }
@@ -0,0 +1,300 @@
+import { type TAbstractFile, TFile, TFolder } from 'obsidian';
+import { get } from 'svelte/store';
+import type { Context } from '../context.ts';
+import type { MealSettings, RecipeFormat } from '../settings/settings.ts';
+import type { Ingredient } from '../types.ts';
+import { GetRecipe, Recipe } from './recipe.ts';
+
+// Bump when the cached ingredients change shape, so older caches are thrown away
+const RECIPE_CACHE_VERSION = 1;
+
+const RECIPE_CACHE_FILE = 'recipe-cache.json';
+
+// How long to wait for more changes before updating the index, saving a note fires several events
+export const RECIPE_INDEX_DELAY = 500;
+
+/**
+ * What's kept of a recipe between sessions, the parts that need the note to be read
+ * The frontmatter is always read again from the metadata cache, it doesn't need the note
+ */
+export interface CachedRecipe {
+    mtime: number;
+    format: RecipeFormat | null;
+    ingredients: Ingredient[];
+}
+
+export interface RecipeCache {
+    version: number;
+    settings: string; // See recipeCacheSettings
+    recipes: Record<string, CachedRecipe>;
+}
+
+/**
+ * The settings that change how a recipe is parsed, a cache made with others is thrown away
+ */
+export function recipeCacheSettings(settings: MealSettings): string {
+    return JSON.stringify([settings.recipeFormat, settings.advancedIngredientParsing]);
+}
+
+/**
+ * The loaded recipes keyed by path, kept up to date as recipe notes change and published to `Context.recipes`
+ */
+export class RecipeIndex {
+    private ctx: Context;
+    private recipes = new Map<string, Recipe>();
+    private cache = new Map<string, CachedRecipe>();
+    private settings: string | null = null;
+    private directory: string | null = null;
+
+    // Paths waiting to be indexed, null when the path was removed
+    private pending = new Map<string, TFile | null>();
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private rebuilding: Promise<void> | null = null;
+
+    constructor(ctx: Context) {
+        this.ctx = ctx;
+    }
+
+    /**
+     * Load the cache and index every recipe, only the notes changed since the cache was saved are read
+     */
+    async load() {
+        const cache = await this.readCache();
+        if (cache !== null && cache.version === RECIPE_CACHE_VERSION && cache.settings === recipeCacheSettings(get(this.ctx.settings))) {
+            this.cache = new Map(Object.entries(cache.recipes));
+        }
+
+        await this.rebuild();
+    }
+
+    /**
+     * Index every recipe in the recipe folder again
+     * @param useCache Read every note again when false
+     */
+    async rebuild(useCache = true) {
+        this.rebuilding = this.indexAll(useCache);
+        await this.rebuilding;
+        this.rebuilding = null;
+    }
+
+    private async indexAll(useCache: boolean) {
+        this.cancel();
+        this.pending.clear();
+
+        const settings = get(this.ctx.settings);
+        this.settings = recipeCacheSettings(settings);
+        this.directory = settings.recipeDirectory;
+        if (!useCache) {
+            this.cache.clear();
+        }
+
+        const recipeFolder = this.ctx.getRecipeFolder();
+        if (recipeFolder === null) {
+            console.error('Failed to get the recipe folder');
+            return;
+        }
+
+        const recipes = new Map<string, Recipe>();
+        await this.indexFolder(recipeFolder, recipes);
+
+        // Forget the notes that are gone
+        for (const path of this.cache.keys()) {
+            if (!recipes.has(path)) {
+                this.cache.delete(path);
+            }
+        }
+
+        this.recipes = recipes;
+        this.publish();
+        await this.saveCache();
+    }
+
+    /**
+     * Index everything again when the recipe folder or a setting that changes how recipes are parsed has changed,
+     * any other setting leaves the index alone
+     */
+    async settingsChanged() {
+        if (this.settings === null) {
+            return;
+        }
+
+        const settings = get(this.ctx.settings);
+        if (this.settings !== recipeCacheSettings(settings)) {
+            await this.rebuild(false);
+        } else if (this.directory !== settings.recipeDirectory) {
+            await this.rebuild();
+        }
+    }
+
+    /**
+     * Index a note that was created or modified, once the burst of changes settles
+     * @param force Read the note even if it hasn't changed since it was cached
+     */
+    update(file: TAbstractFile, force = false) {
+        if (file instanceof TFolder) {
+            for (const child of file.children) {
+                this.update(child, force);
+            }
+            return;
+        }
+
+        if (!(file instanceof TFile)) {
+            return;
+        }
+
+        // The plugin's own notes, like the meal plan and shopping list, change all the time and aren't recipes
+        if (!this.recipes.has(file.path) && !this.ctx.isInRecipeFolder(file)) {
+            return;
+        }
+
+        if (force) {
+            this.cache.delete(file.path);
+        }
+
+        this.schedule(file.path, file);
+    }
+
+    /**
+     * Remove a deleted note, or every recipe in a deleted folder
+     */
+    remove(path: string) {
+        for (const recipePath of new Set([...this.recipes.keys(), ...this.pending.keys()])) {
+            if (recipePath === path || recipePath.startsWith(`${path}/`)) {
+                this.schedule(recipePath, null);
+            }
+        }
+    }
+
+    rename(file: TAbstractFile, oldPath: string) {
+        // Keep the cached ingredients, renaming doesn't change the note
+        for (const [path, cached] of Array.from(this.cache)) {
+            if (path === oldPath || path.startsWith(`${oldPath}/`)) {
+                this.cache.delete(path);
+                this.cache.set(file.path + path.substring(oldPath.length), cached);
+            }
+        }
+
+        this.remove(oldPath);
+        this.update(file);
+    }
+
+    /**
+     * Index the pending changes now instead of waiting
+     */
+    async flush() {
+        this.cancel();
+
+        // Changes made while everything is indexed are applied after it, so they aren't overwritten
+        if (this.rebuilding !== null) {
+            await this.rebuilding;
+        }
+
+        const pending = this.pending;
+        this.pending = new Map();
+        if (pending.size === 0) {
+            return;
+        }
+
+        let changed = false;
+        const recipeFolder = this.ctx.getRecipeFolder();
+        for (const [path, file] of pending) {
+            // A note moved out of the recipe folder is removed too
+            if (file === null || recipeFolder === null || !this.ctx.isInRecipeFolder(file, recipeFolder)) {
+                changed = this.recipes.delete(path) || changed;
+                this.cache.delete(path);
+                continue;
+            }
+
+            // Already indexed as it is now
+            if (this.recipes.has(path) && this.cache.get(path)?.mtime === file.stat.mtime) {
+                continue;
+            }
+
+            this.recipes.set(path, await this.indexFile(file));
+            changed = true;
+        }
+
+        if (changed) {
+            this.publish();
+            await this.saveCache();
+        }
+    }
+
+    /**
+     * Stop waiting for pending changes, they're picked up from the cache's mtimes next time
+     */
+    cancel() {
+        if (this.timer !== null) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private schedule(path: string, file: TFile | null) {
+        this.pending.set(path, file);
+
+        this.cancel();
+        this.timer = setTimeout(() => this.flush(), RECIPE_INDEX_DELAY);
+    }
+
+    private async indexFolder(folder: TFolder, recipes: Map<string, Recipe>) {
+        for (const file of folder.children) {
+            if (file instanceof TFile) {
+                recipes.set(file.path, await this.indexFile(file));
+            } else if (file instanceof TFolder) {
+                await this.indexFolder(file, recipes);
+            }
+        }
+    }
+
+    private async indexFile(file: TFile): Promise<Recipe> {
+        const cached = this.cache.get(file.path);
+        if (cached !== undefined && cached.mtime === file.stat.mtime) {
+            const recipe = new Recipe(file);
+            recipe.fillMetadata(this.ctx);
+            recipe.format = cached.format;
+            recipe.ingredients = cached.ingredients;
+            return recipe;
+        }
+
+        const recipe = await GetRecipe(this.ctx, file);
+        this.cache.set(file.path, { mtime: file.stat.mtime, format: recipe.format, ingredients: recipe.ingredients });
+        return recipe;
+    }
+
+    private publish() {
+        this.ctx.recipes.set(Array.from(this.recipes.values()));
+    }
+
+    private cachePath() {
+        return `${this.ctx.plugin.manifest.dir}/${RECIPE_CACHE_FILE}`;
+    }
+
+    private async readCache(): Promise<RecipeCache | null> {
+        const { adapter } = this.ctx.app.vault;
+        try {
+            if (!(await adapter.exists(this.cachePath()))) {
+                return null;
+            }
+
+            return JSON.parse(await adapter.read(this.cachePath())) as RecipeCache;
+        } catch (e) {
+            console.error('Failed to read the recipe cache, reading every recipe', e);
+            return null;
+        }
+    }
+
+    private async saveCache() {
+        const cache: RecipeCache = {
+            version: RECIPE_CACHE_VERSION,
+            settings: this.settings ?? recipeCacheSettings(get(this.ctx.settings)),
+            recipes: Object.fromEntries(this.cache),
+        };
+
+        try {
+            await this.ctx.app.vault.adapter.write(this.cachePath(), JSON.stringify(cache));
+        } catch (e) {
+            console.error('Failed to save the recipe cache', e);
+        }
+    }
+}
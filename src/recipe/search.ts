@@ -0,0 +1,158 @@
+import type { RecipeHistory } from '../meal_plan/history.ts';
+import { type DietProfile, ShoppingListIgnoreBehaviour } from '../settings/settings.ts';
+import { isIgnoredIngredient } from '../utils/utils.ts';
+import { FindDietViolations } from './diet.ts';
+import type { Recipe } from './recipe.ts';
+
+export interface RecipeCoverage {
+    recipe: Recipe;
+    coverage: number; // Share of the recipe's ingredients that are available, from 0 to 1
+    missing: string[];
+}
+
+/**
+ * Score every recipe by how many of its ingredients are available, sorted by the fewest missing ingredients
+ * @param available Lowercase ingredient descriptions that are available
+ * @param isAlwaysAvailable Ingredients to count as available without being in the set, like the shopping list ignore list
+ */
+export function RankRecipesByCoverage(
+    recipes: Recipe[],
+    available: Set<string>,
+    isAlwaysAvailable: (description: string) => boolean,
+): RecipeCoverage[] {
+    const ranked: RecipeCoverage[] = [];
+
+    for (const recipe of recipes) {
+        const descs = new Set(
+            recipe.ingredients
+                .filter((i) => i !== undefined && i.description !== undefined)
+                .map((i) => {
+                    return i.description.toLocaleLowerCase();
+                }),
+        );
+        if (descs.size === 0) {
+            continue;
+        }
+
+        const missing = [...descs].filter((d) => {
+            return !available.has(d) && !isAlwaysAvailable(d);
+        });
+
+        ranked.push({
+            recipe,
+            coverage: (descs.size - missing.length) / descs.size,
+            missing,
+        });
+    }
+
+    return ranked.sort((a, b) => {
+        return a.missing.length - b.missing.length || b.coverage - a.coverage || a.recipe.name.localeCompare(b.recipe.name);
+    });
+}
+
+export interface RecipeFilters {
+    tags: string[]; // The recipe needs every tag
+    cuisine: string | null;
+    maxTotalTime: number | null; // Minutes
+    minRating: number | null;
+    excludedIngredients: string[]; // Hides recipes with an ingredient containing any of these, e.g. "nut"
+    dietProfiles: DietProfile[]; // Hides recipes that don't fit any of these profiles
+}
+
+export enum RecipeSort {
+    Name = 'Name',
+    Time = 'Time',
+    Rating = 'Rating',
+    LeastRecentlyCooked = 'Least recently cooked',
+    NotHadInAWhile = "Haven't had in a while",
+}
+
+export function emptyFilters(): RecipeFilters {
+    return { tags: [], cuisine: null, maxTotalTime: null, minRating: null, excludedIngredients: [], dietProfiles: [] };
+}
+
+/**
+ * Check a recipe against the metadata filters and excluded ingredients
+ * Recipes missing the metadata a filter needs, like a rating, don't match that filter
+ */
+export function MatchesFilters(recipe: Recipe, filters: RecipeFilters): boolean {
+    const tags = recipe.tags.map((t) => t.toLowerCase());
+    if (!filters.tags.every((t) => tags.includes(t.toLowerCase()))) {
+        return false;
+    }
+
+    if (filters.cuisine !== null && recipe.cuisine?.toLowerCase() !== filters.cuisine.toLowerCase()) {
+        return false;
+    }
+
+    if (filters.maxTotalTime != null && (recipe.totalTime === null || recipe.totalTime > filters.maxTotalTime)) {
+        return false;
+    }
+
+    if (filters.minRating != null && (recipe.rating === null || recipe.rating < filters.minRating)) {
+        return false;
+    }
+
+    if (filters.dietProfiles.some((p) => FindDietViolations(recipe, p).length > 0)) {
+        return false;
+    }
+
+    return !recipe.ingredients.some((i) => {
+        return (
+            i?.description !== undefined &&
+            isIgnoredIngredient(i.description, filters.excludedIngredients, ShoppingListIgnoreBehaviour.Partial)
+        );
+    });
+}
+
+/**
+ * Compare recipes for the sort option, recipes without the metadata go last
+ * Least recently cooked puts recipes that have never been cooked first
+ * @param history Used by "haven't had in a while", along with the last cooked dates
+ */
+export function CompareRecipes(a: Recipe, b: Recipe, sort: RecipeSort, history: Map<string, RecipeHistory> = new Map()): number {
+    const byName = a.name.localeCompare(b.name);
+
+    switch (sort) {
+        case RecipeSort.Time:
+            return compareNullable(a.totalTime, b.totalTime) || byName;
+        case RecipeSort.Rating:
+            return compareNullable(b.rating, a.rating, true) || byName;
+        case RecipeSort.LeastRecentlyCooked:
+            if (a.lastCooked === null || b.lastCooked === null) {
+                return (a.lastCooked === null ? 0 : 1) - (b.lastCooked === null ? 0 : 1) || byName;
+            }
+            return a.lastCooked.valueOf() - b.lastCooked.valueOf() || byName;
+        case RecipeSort.NotHadInAWhile:
+            return compareNullable(lastHad(a, history), lastHad(b, history), false, true) || byName;
+        default:
+            return byName;
+    }
+}
+
+/**
+ * The last time a recipe was had, either planned in the meal plan or from its last cooked date
+ */
+function lastHad(recipe: Recipe, history: Map<string, RecipeHistory>): number | null {
+    const planned = history.get(recipe.name.toLowerCase())?.lastPlanned.valueOf() ?? null;
+    const cooked = recipe.lastCooked?.valueOf() ?? null;
+    if (planned === null || cooked === null) {
+        return planned ?? cooked;
+    }
+
+    return Math.max(planned, cooked);
+}
+
+/**
+ * Compare two values ascending, with nulls last
+ * @param reversed Set when the arguments are swapped to sort descending, so the nulls still go last
+ * @param nullsFirst Put the nulls first instead
+ */
+function compareNullable(a: number | null, b: number | null, reversed = false, nullsFirst = false): number {
+    if (a === null || b === null) {
+        const nullLast = (a === null ? 1 : 0) - (b === null ? 1 : 0);
+        return reversed !== nullsFirst ? -nullLast : nullLast;
+    }
+
+    return a - b;
+}
@@ -1,6 +1,7 @@
 export enum RecipeFormat {
     MealPlan = 'Meal Plan',
     RecipeMD = 'RecipeMD',
+    Cooklang = 'Cooklang',
 }
 
 export enum ShoppingListIgnoreBehaviour {
@@ -15,19 +16,65 @@ export enum MealPlanFormat {
     Table = 'Table',
 }
 
+export enum UnitSystem {
+    Original = 'Original',
+    Metric = 'Metric',
+    Imperial = 'Imperial',
+}
+
+export enum ShoppingListLayout {
+    ByRecipe = 'By Recipe',
+    ByWeek = 'By Week',
+    Aggregated = 'Aggregated',
+}
+
+export interface DietProfile {
+    name: string;
+    patterns: string[]; // Ingredients the profile doesn't allow, matched like the shopping list ignore list
+    behaviour: ShoppingListIgnoreBehaviour;
+}
+
+export interface RecurringRule {
+    entry: string; // A recipe link like `[[Pizza]]` or text like `Eating out`
+    day: string; // Weekday name, e.g. Friday
+    slot: string; // Meal slot, empty for the day itself
+    interval: number; // Every this many weeks
+    start: string; // YYYY-MM-DD, the interval is counted from here
+    end: string; // YYYY-MM-DD, empty to repeat forever
+}
+
 export class MealSettings {
     recipeDirectory = 'Meals';
     mealPlanNote = 'Meal Plan';
     shoppingListNote = 'Shopping List';
+    pantryNote = 'Pantry';
     recipeFormat: RecipeFormat = RecipeFormat.RecipeMD;
     mealPlanFormat: MealPlanFormat = MealPlanFormat.List;
+    mealSlots: string[] = [];
     shoppingListIgnore: string[] = ['salt', 'pepper', 'olive oil', 'garlic powder'];
     shoppingListIgnoreBehaviour: ShoppingListIgnoreBehaviour = ShoppingListIgnoreBehaviour.Exact;
     advancedIngredientParsing = false;
     shoppingListFormat = '{description} {quantity} {unitOfMeasure}';
+    shoppingListUnitSystem: UnitSystem = UnitSystem.Original;
+    shoppingListLayout: ShoppingListLayout = ShoppingListLayout.ByRecipe;
+    groupShoppingListByCategory = false;
+    shoppingListCategoryOverrides: string[] = [];
+    shoppingListCategoryOrder: string[] = ['Produce', 'Bakery', 'Meat & Fish', 'Dairy & Eggs', 'Frozen', 'Pantry', 'Spices', 'Drinks'];
     debugMode = false;
     startOfWeek = 0;
     includeNutritionalInformation = true;
     showRecipeParseErrors = false;
     showCalendarInMealPlan = true;
+    dietProfiles: DietProfile[] = [];
+    activeDietProfile = '';
+    recurringRules: RecurringRule[] = [];
+    generatorNoRepeatWeeks = 2;
+    generatorMaxWeekdayTime = 0;
+    generatorTagQuotas: string[] = [];
+    generatorReuseIngredients = true;
+    updateLastCooked = false;
+    dailyCalorieTarget = 0;
+    dailyProteinTarget = 0;
+    dailyFatTarget = 0;
+    dailyCarbsTarget = 0;
 }
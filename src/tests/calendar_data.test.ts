@@ -1,6 +1,12 @@
 import moment from 'moment';
-import { describe, expect, test } from 'vitest';
-import { type CalendarItem, generateCalendarData } from '../meal_plan/calendar_data.ts';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import {
+    type CalendarItem,
+    extractDailyRecipes,
+    generateAgendaData,
+    generateCalendarData,
+    generateWeekData,
+} from '../meal_plan/calendar_data.ts';
 
 describe('generateCalendarData', () => {
     test('should generate 6 weeks of calendar data by default', () => {
@@ -165,3 +171,126 @@ describe('generateCalendarData', () => {
         expect(jan15?.items[1]).toEqual({ name: 'Leftovers', isRecipe: false });
     });
 });
+
+test('generateWeekData', () => {
+    const dailyItems = new Map<string, CalendarItem[]>([['2024-01-10', [{ name: 'Curry', isRecipe: true }]]]);
+
+    // Wednesday, with the week starting on Monday
+    const week = generateWeekData(moment('2024-01-10'), 1, dailyItems);
+
+    expect(week.weekStart.format('YYYY-MM-DD')).toBe('2024-01-08');
+    expect(week.days.map((d) => d.dayName)).toStrictEqual(['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday']);
+    expect(week.days[2].items).toStrictEqual([{ name: 'Curry', isRecipe: true }]);
+});
+
+test('generateAgendaData', () => {
+    const dailyItems = new Map<string, CalendarItem[]>([
+        ['2024-01-07', [{ name: 'Soup', isRecipe: true }]],
+        ['2024-01-12', [{ name: 'Eating out', isRecipe: false }]],
+        ['2024-01-08', [{ name: 'Curry', isRecipe: true }]],
+        ['2024-01-09', []],
+        ['2024-03-01', [{ name: 'Chilli', isRecipe: true }]],
+    ]);
+
+    const days = generateAgendaData(moment('2024-01-08 18:00'), dailyItems);
+
+    expect(days.map((d) => [d.date.format('YYYY-MM-DD'), d.dayName])).toStrictEqual([
+        ['2024-01-08', 'Monday'],
+        ['2024-01-12', 'Friday'],
+    ]);
+});
+
+describe('extractDailyRecipes', () => {
+    const mealPlanFile = { path: 'Meal Plan.md', basename: 'Meal Plan' } as any;
+
+    function createContext(content: string, fileCache: any) {
+        return {
+            app: {
+                vault: { read: vi.fn().mockResolvedValue(content) },
+                metadataCache: { getFileCache: vi.fn().mockReturnValue(fileCache) },
+            },
+        } as any;
+    }
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2024-01-10T12:00:00'));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    test('should read servings multipliers from table cells', async () => {
+        const content = `| Week Start | Sunday | Monday | Tuesday | Wednesday | Thursday | Friday | Saturday |
+|---|---|---|---|---|---|---|---|
+| January 7th |  | [[Pasta]] x2<br>Eating out | [[Salad]] |  |  |  |  |
+`;
+
+        const result = await extractDailyRecipes(createContext(content, { links: [] }), mealPlanFile, 0);
+
+        expect(result.get('2024-01-08')).toEqual([
+            { name: 'Pasta', isRecipe: true, multiplier: 2 },
+            { name: 'Eating out', isRecipe: false },
+        ]);
+        expect(result.get('2024-01-09')).toEqual([{ name: 'Salad', isRecipe: true }]);
+    });
+
+    test('should read servings multipliers from list items', async () => {
+        const content = `# Week of January 7th
+## Sunday
+## Monday
+- [[Pasta]] x0.5
+- [[Salad]]
+`;
+        const heading = (text: string, level: number) => {
+            const start = content.indexOf(text) - level - 1;
+            return { heading: text, level, position: { start: { offset: start }, end: { offset: start + level + 1 + text.length } } };
+        };
+        const link = (name: string) => {
+            const start = content.indexOf(`[[${name}]]`);
+            return { link: name, position: { start: { offset: start }, end: { offset: start + name.length + 4 } } };
+        };
+
+        const fileCache = {
+            headings: [heading('Week of January 7th', 1), heading('Sunday', 2), heading('Monday', 2)],
+            links: [link('Pasta'), link('Salad')],
+        };
+
+        const result = await extractDailyRecipes(createContext(content, fileCache), mealPlanFile, 0);
+
+        expect(result.get('2024-01-08')).toEqual([
+            { name: 'Pasta', isRecipe: true, multiplier: 0.5 },
+            { name: 'Salad', isRecipe: true },
+        ]);
+    });
+
+    test('should read meal slots from table cells', async () => {
+        const content = `| Week Start | Sunday | Monday | Tuesday | Wednesday | Thursday | Friday | Saturday |
+|---|---|---|---|---|---|---|---|
+| January 7th |  | Eating out<br>dinner: [[Pasta]] x2<br>Note: shopping |  |  |  |  |  |
+`;
+
+        const result = await extractDailyRecipes(createContext(content, { links: [] }), mealPlanFile, 0, ['Lunch', 'Dinner']);
+
+        expect(result.get('2024-01-08')).toEqual([
+            { name: 'Eating out', isRecipe: false },
+            { name: 'Pasta', isRecipe: true, multiplier: 2, slot: 'Dinner' },
+            { name: 'Note: shopping', isRecipe: false },
+        ]);
+    });
+
+    test('should read leftovers and link them to the day the recipe was cooked', async () => {
+        const content = `| Week Start | Sunday | Monday | Tuesday | Wednesday | Thursday | Friday | Saturday |
+|---|---|---|---|---|---|---|---|
+| January 7th |  | [[Pasta]] x2 | Dinner: Leftovers: [[Pasta]] | Leftovers: pizza |  |  |  |
+`;
+
+        const result = await extractDailyRecipes(createContext(content, { links: [] }), mealPlanFile, 0, ['Dinner']);
+
+        expect(result.get('2024-01-09')).toEqual([
+            { name: 'Pasta', isRecipe: true, slot: 'Dinner', leftovers: true, leftoversFrom: '2024-01-08' },
+        ]);
+        expect(result.get('2024-01-10')).toEqual([{ name: 'Leftovers: pizza', isRecipe: false }]);
+    });
+});
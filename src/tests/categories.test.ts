@@ -0,0 +1,56 @@
+import { describe, expect, test } from 'vitest';
+import { categorizeIngredient, groupByCategory, OTHER_CATEGORY, parseCategoryOverrides } from '../meal_plan/categories.ts';
+
+describe('categorizeIngredient', () => {
+    test('uses the default dictionary', () => {
+        const overrides = new Map<string, string>();
+
+        expect(categorizeIngredient('onion', overrides)).toBe('Produce');
+        expect(categorizeIngredient('Tomatoes', overrides)).toBe('Produce');
+        expect(categorizeIngredient('chicken thighs', overrides)).toBe('Meat & Fish');
+        expect(categorizeIngredient('milk', overrides)).toBe('Dairy & Eggs');
+    });
+
+    test('prefers the longest matching keyword', () => {
+        const overrides = new Map<string, string>();
+
+        expect(categorizeIngredient('coconut milk', overrides)).toBe('Pantry');
+        expect(categorizeIngredient('garlic powder', overrides)).toBe('Spices');
+        expect(categorizeIngredient('peanut butter', overrides)).toBe('Pantry');
+    });
+
+    test('only matches whole words', () => {
+        expect(categorizeIngredient('teriyaki sauce', new Map())).toBe(OTHER_CATEGORY);
+    });
+
+    test('user overrides take priority', () => {
+        const overrides = parseCategoryOverrides(['milk: Drinks', 'tofu: Dairy & Eggs']);
+
+        expect(categorizeIngredient('milk', overrides)).toBe('Drinks');
+        expect(categorizeIngredient('smoked tofu', overrides)).toBe('Dairy & Eggs');
+    });
+});
+
+test('parseCategoryOverrides', () => {
+    const overrides = parseCategoryOverrides(['Tofu: Dairy & Eggs', 'no separator', ': Empty', 'tahini:  Pantry ']);
+
+    expect([...overrides.entries()]).toStrictEqual([
+        ['tofu', 'Dairy & Eggs'],
+        ['tahini', 'Pantry'],
+    ]);
+});
+
+test('groupByCategory', () => {
+    const items = ['flour', 'mystery item', 'milk', 'onion', 'tofu', 'carrot'];
+    const overrides = parseCategoryOverrides(['tofu: Chilled']);
+
+    const groups = groupByCategory(items, (i) => i, overrides, ['Produce', 'Pantry', 'Dairy & Eggs']);
+
+    expect(groups).toStrictEqual([
+        { category: 'Produce', items: ['onion', 'carrot'] },
+        { category: 'Pantry', items: ['flour'] },
+        { category: 'Dairy & Eggs', items: ['milk'] },
+        { category: 'Chilled', items: ['tofu'] },
+        { category: OTHER_CATEGORY, items: ['mystery item'] },
+    ]);
+});
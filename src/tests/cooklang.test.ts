@@ -0,0 +1,80 @@
+import { describe, expect, test } from 'vitest';
+import { GetCooklangFormatBoundedList, ParseCooklang } from '../utils/cooklang.ts';
+import { GetIngredientsFromList } from '../utils/parser.ts';
+
+const recipe = `>> servings: 2
+-- A comment about the recipe
+
+Crack @eggs{3} into a #mixing bowl{}, add @salt and @ground black pepper{1%tsp}.
+
+Fry @bacon strips{1/2%kg}(diced) in a #pan for ~{5%minutes}. [- crispy is better -]
+Season with @salt to taste.
+
+= Serving
+Serve with @&toast{2}.
+`;
+
+describe('ParseCooklang', () => {
+    test('reads the ingredients with their amounts', () => {
+        expect(ParseCooklang(recipe).ingredients).toEqual([
+            { name: 'eggs', quantity: '3', unit: '', note: '', section: null },
+            { name: 'salt', quantity: '', unit: '', note: '', section: null },
+            { name: 'ground black pepper', quantity: '1', unit: 'tsp', note: '', section: null },
+            { name: 'bacon strips', quantity: '1/2', unit: 'kg', note: 'diced', section: null },
+            { name: 'toast', quantity: '2', unit: '', note: '', section: 'Serving' },
+        ]);
+    });
+
+    test('reads the cookware', () => {
+        expect(ParseCooklang(recipe).cookware).toEqual(['mixing bowl', 'pan']);
+    });
+
+    test('turns each paragraph into a step without the markup', () => {
+        expect(ParseCooklang(recipe).steps).toEqual([
+            'Crack eggs into a mixing bowl, add salt and ground black pepper.',
+            'Fry bacon strips in a pan for 5 minutes. Season with salt to taste.',
+            'Serve with toast.',
+        ]);
+    });
+
+    test('keeps an ingredient used in two sections in both', () => {
+        const sections = '= Dough\nKnead @flour{500%g} with @water.\n\n= Topping\nDust with @flour{1%tbsp} and add @water.';
+
+        expect(ParseCooklang(sections).ingredients.map((i) => [i.name, i.quantity, i.section])).toEqual([
+            ['flour', '500', 'Dough'],
+            ['water', '', 'Dough'],
+            ['flour', '1', 'Topping'],
+            ['water', '', 'Topping'],
+        ]);
+    });
+
+    test('drops the markers of fixed and scaling quantities', () => {
+        expect(ParseCooklang('Add @salt{=1%tsp} and @water{2*%cups}.').ingredients).toEqual([
+            { name: 'salt', quantity: '1', unit: 'tsp', note: '', section: null },
+            { name: 'water', quantity: '2', unit: 'cups', note: '', section: null },
+        ]);
+    });
+});
+
+describe('GetCooklangFormatBoundedList', () => {
+    test('writes the ingredients as list lines the ingredient parser reads', () => {
+        const list = GetCooklangFormatBoundedList(recipe);
+        expect(list).toEqual([
+            '- 3 eggs',
+            '- salt',
+            '- 1 tsp ground black pepper',
+            '- 1/2 kg bacon strips, diced',
+            '## Serving',
+            '- 2 toast',
+        ]);
+
+        const ingredients = GetIngredientsFromList(list, true, false).unwrap();
+        expect(ingredients.map((i) => [i.quantity, i.unitOfMeasureID, i.description, i.group])).toEqual([
+            [3, null, 'egg', null],
+            [null, null, 'salt', null],
+            [1, 'teaspoon', 'ground black pepper', null],
+            [0.5, 'kilogram', 'bacon strip', null],
+            [2, null, 'toast', 'Serving'],
+        ]);
+    });
+});
@@ -0,0 +1,34 @@
+import { expect, test } from 'vitest';
+import { FindDietViolations, GetActiveDietProfile } from '../recipe/diet.ts';
+import { Recipe } from '../recipe/recipe.ts';
+import { type DietProfile, MealSettings, ShoppingListIgnoreBehaviour } from '../settings/settings.ts';
+import type { Ingredient } from '../types.ts';
+
+function recipe(ingredients: string[]): Recipe {
+    const r = new Recipe({ path: 'Meals/Satay.md', basename: 'Satay' } as any);
+    r.ingredients = ingredients.map((description) => {
+        return { description, quantity: 1, unitOfMeasure: '' } as Ingredient;
+    });
+    return r;
+}
+
+test('FindDietViolations', () => {
+    const satay = recipe(['chicken', 'peanut butter', 'soy sauce', 'peanut butter']);
+    const nutFree: DietProfile = { name: 'nut-free', patterns: ['*nut*', ''], behaviour: ShoppingListIgnoreBehaviour.Wildcard };
+    const vegetarian: DietProfile = { name: 'vegetarian', patterns: ['chicken', 'beef'], behaviour: ShoppingListIgnoreBehaviour.Exact };
+    const glutenFree: DietProfile = { name: 'gluten-free', patterns: ['flour'], behaviour: ShoppingListIgnoreBehaviour.Partial };
+
+    expect(FindDietViolations(satay, nutFree)).toStrictEqual(['peanut butter']);
+    expect(FindDietViolations(satay, vegetarian)).toStrictEqual(['chicken']);
+    expect(FindDietViolations(satay, glutenFree)).toStrictEqual([]);
+});
+
+test('GetActiveDietProfile', () => {
+    const settings = new MealSettings();
+    settings.dietProfiles = [{ name: 'vegan', patterns: ['milk'], behaviour: ShoppingListIgnoreBehaviour.Exact }];
+
+    expect(GetActiveDietProfile(settings)).toBeNull();
+
+    settings.activeDietProfile = 'vegan';
+    expect(GetActiveDietProfile(settings)?.patterns).toStrictEqual(['milk']);
+});
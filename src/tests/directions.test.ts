@@ -0,0 +1,99 @@
+import { describe, expect, test } from 'vitest';
+import {
+    findDurations,
+    formatCountdown,
+    GetMealPlanFormatDirections,
+    GetRecipeMDFormatDirections,
+    ingredientsInStep,
+    splitSteps,
+} from '../recipe/directions.ts';
+import type { Ingredient } from '../types.ts';
+
+function ingredient(description: string): Ingredient {
+    return {
+        quantity: 1,
+        quantity2: null,
+        unitOfMeasure: null,
+        unitOfMeasureID: null,
+        description,
+        isGroupHeader: false,
+        altQuantity: null,
+        altUnitOfMeasure: null,
+        altUnitOfMeasureID: null,
+        group: null,
+    };
+}
+
+describe('GetRecipeMDFormatDirections', () => {
+    test('reads everything after the ingredients', () => {
+        const content = '# Curry\n\n*dinner*\n\n---\n- 1 onion\n---\n\n1. Fry the onion\n2. Add the rest\n';
+
+        expect(GetRecipeMDFormatDirections(content).unwrap()).toBe('1. Fry the onion\n2. Add the rest');
+    });
+
+    test('fails when the ingredients do not end', () => {
+        expect(GetRecipeMDFormatDirections('# Curry\n---\n- 1 onion\n').isErr()).toBe(true);
+    });
+});
+
+describe('GetMealPlanFormatDirections', () => {
+    test('reads up to the next heading of the same level', () => {
+        const content = '# Ingredients\n- 1 onion\n# Directions\n1. Fry the onion\n## Tip\nUse butter\n# Notes\nServes 4\n';
+
+        expect(GetMealPlanFormatDirections(content).unwrap()).toBe('1. Fry the onion\n## Tip\nUse butter');
+    });
+
+    test('fails without a directions heading', () => {
+        expect(GetMealPlanFormatDirections('# Ingredients\n- 1 onion\n').isErr()).toBe(true);
+    });
+});
+
+describe('splitSteps', () => {
+    test('splits numbered and bulleted items, joining the lines that continue them', () => {
+        expect(splitSteps('1. Fry the onion\nuntil soft\n2) Add the rice\n- [ ] Serve')).toEqual([
+            'Fry the onion until soft',
+            'Add the rice',
+            'Serve',
+        ]);
+    });
+
+    test('splits paragraphs when there is no list', () => {
+        expect(splitSteps('Fry the onion\nuntil soft.\n\nAdd the rice.')).toEqual(['Fry the onion until soft.', 'Add the rice.']);
+    });
+});
+
+describe('findDurations', () => {
+    test('finds the durations with their position', () => {
+        const step = 'Simmer for 12 minutes, then bake for 1 1/2 hours';
+
+        expect(findDurations(step)).toEqual([
+            { text: '12 minutes', index: 11, seconds: 720 },
+            { text: '1 1/2 hours', index: 37, seconds: 5400 },
+        ]);
+    });
+
+    test('times a range for its shorter end', () => {
+        expect(findDurations('Bake 25-30 mins')[0]).toEqual({ text: '25-30 mins', index: 5, seconds: 1500 });
+    });
+
+    test('ignores numbers that are not durations', () => {
+        expect(findDurations('Heat the oven to 200 degrees with 2 trays')).toEqual([]);
+    });
+});
+
+describe('ingredientsInStep', () => {
+    test('matches an ingredient by its name or the last word of it', () => {
+        const ingredients = [ingredient('red onions'), ingredient('basmati rice'), ingredient('chicken thighs')];
+
+        expect(ingredientsInStep('Fry the onion, then add the rice', ingredients).map((i) => i.description)).toEqual([
+            'red onions',
+            'basmati rice',
+        ]);
+    });
+});
+
+test('formatCountdown', () => {
+    expect(formatCountdown(720)).toBe('12:00');
+    expect(formatCountdown(65)).toBe('1:05');
+    expect(formatCountdown(3900)).toBe('1:05:00');
+});
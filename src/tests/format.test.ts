@@ -0,0 +1,80 @@
+import { describe, expect, test } from 'vitest';
+import { detectRecipeFormat, parseRecipeFormat, scoreRecipeFormats } from '../recipe/format.ts';
+import { RecipeFormat } from '../settings/settings.ts';
+
+const recipeMD = `# Butter Chicken
+
+*indian, dinner*
+
+---
+- *1 tsp* ground cumin
+- 1/2 Lemon
+---
+
+1. Marinate the chicken
+`;
+
+const mealPlan = `# Ingredients
+- 1 tsp baking soda
+
+# Directions
+1. Mix dry ingredients together
+`;
+
+const cooklang = `>> servings: 2
+
+Crack @eggs{3} into a bowl and whisk for ~{2%minutes}.
+`;
+
+describe('parseRecipeFormat', () => {
+    test('reads the format ignoring case and separators', () => {
+        expect(parseRecipeFormat('recipemd')).toBe(RecipeFormat.RecipeMD);
+        expect(parseRecipeFormat('meal-plan')).toBe(RecipeFormat.MealPlan);
+        expect(parseRecipeFormat('Meal Plan')).toBe(RecipeFormat.MealPlan);
+        expect(parseRecipeFormat('COOKLANG')).toBe(RecipeFormat.Cooklang);
+    });
+
+    test('is null for anything else', () => {
+        expect(parseRecipeFormat('markdown')).toBeNull();
+        expect(parseRecipeFormat(3)).toBeNull();
+        expect(parseRecipeFormat(undefined)).toBeNull();
+    });
+});
+
+describe('scoreRecipeFormats', () => {
+    test('scores each format highest for its own notes', () => {
+        for (const [body, format] of [
+            [recipeMD, RecipeFormat.RecipeMD],
+            [mealPlan, RecipeFormat.MealPlan],
+            [cooklang, RecipeFormat.Cooklang],
+        ] as const) {
+            const scores = scoreRecipeFormats(body);
+            const others = Object.entries(scores).filter(([f]) => f !== format);
+            expect(others.every(([, score]) => score < scores[format])).toBe(true);
+        }
+    });
+});
+
+describe('detectRecipeFormat', () => {
+    test('uses the frontmatter over the structure', () => {
+        expect(detectRecipeFormat(mealPlan, { recipe_format: 'Cooklang' }, RecipeFormat.RecipeMD)).toEqual({
+            format: RecipeFormat.Cooklang,
+            source: 'frontmatter',
+        });
+    });
+
+    test('detects the format from the structure', () => {
+        expect(detectRecipeFormat(mealPlan, undefined, RecipeFormat.RecipeMD)).toEqual({
+            format: RecipeFormat.MealPlan,
+            source: 'structure',
+        });
+        expect(detectRecipeFormat(cooklang, {}, RecipeFormat.RecipeMD)).toEqual({ format: RecipeFormat.Cooklang, source: 'structure' });
+    });
+
+    test('falls back to the setting when the structure is ambiguous', () => {
+        expect(detectRecipeFormat('Just some notes about a recipe', undefined, RecipeFormat.MealPlan)).toEqual({
+            format: RecipeFormat.MealPlan,
+            source: 'setting',
+        });
+    });
+});
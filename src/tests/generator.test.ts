@@ -0,0 +1,111 @@
+import moment from 'moment';
+import { describe, expect, test } from 'vitest';
+import type { CalendarItem } from '../meal_plan/calendar_data.ts';
+import { GenerateMealPlan, type GeneratorOptions, parseTagQuotas, RerollDay } from '../meal_plan/generator.ts';
+import { Recipe } from '../recipe/recipe.ts';
+import type { Ingredient } from '../types.ts';
+
+function recipe(name: string, ingredients: string[], tags: string[] = [], totalTime: number | null = null): Recipe {
+    const r = new Recipe({ path: `Meals/${name}.md`, basename: name } as any);
+    r.ingredients = ingredients.map((description) => {
+        return { description, quantity: 1, unitOfMeasure: '' } as Ingredient;
+    });
+    r.tags = tags;
+    r.totalTime = totalTime;
+    return r;
+}
+
+function options(overrides: Partial<GeneratorOptions> = {}): GeneratorOptions {
+    return {
+        noRepeatWeeks: 0,
+        maxWeekdayTime: null,
+        tagQuotas: new Map(),
+        reuseIngredients: false,
+        isStaple: (d) => d === 'salt',
+        ...overrides,
+    };
+}
+
+// Always picks the first candidate
+const first = () => 0;
+
+const weekStart = moment('2024-01-08');
+const days = [0, 1, 2].map((i) => {
+    const date = weekStart.clone().add(i, 'days');
+    return { date, dayName: date.format('dddd') };
+});
+
+test('parseTagQuotas', () => {
+    const quotas = parseTagQuotas(['vegetarian: 2', '#Fish:1', 'no count', 'pasta: 0']);
+
+    expect([...quotas]).toStrictEqual([
+        ['vegetarian', 2],
+        ['fish', 1],
+    ]);
+});
+
+describe('GenerateMealPlan', () => {
+    test('fills each day with a different recipe', () => {
+        const recipes = [recipe('Curry', ['chicken']), recipe('Chilli', ['beef']), recipe('Pasta', ['pasta'])];
+
+        const plan = GenerateMealPlan(recipes, days, weekStart, new Map(), options(), first);
+
+        expect(plan.map((d) => d.recipe?.name)).toStrictEqual(['Curry', 'Chilli', 'Pasta']);
+        expect(plan.map((d) => d.dayName)).toStrictEqual(['Monday', 'Tuesday', 'Wednesday']);
+    });
+
+    test("doesn't repeat recently planned recipes", () => {
+        const recipes = [recipe('Curry', ['chicken']), recipe('Chilli', ['beef']), recipe('Pasta', ['pasta'])];
+        const planned = new Map<string, CalendarItem[]>([
+            ['2024-01-02', [{ name: 'Meals/Curry', isRecipe: true }]],
+            ['2023-12-20', [{ name: 'Chilli', isRecipe: true }]],
+        ]);
+
+        const plan = GenerateMealPlan(recipes, days, weekStart, planned, options({ noRepeatWeeks: 1 }), first);
+
+        expect(plan.map((d) => d.recipe?.name ?? null)).toStrictEqual(['Chilli', 'Pasta', null]);
+    });
+
+    test('leaves out weekday recipes that take too long', () => {
+        const recipes = [recipe('Roast', ['lamb'], [], 180), recipe('Stir fry', ['noodles'], [], 20), recipe('Salad', ['lettuce'])];
+
+        const plan = GenerateMealPlan(recipes, days.slice(0, 2), weekStart, new Map(), options({ maxWeekdayTime: 30 }), first);
+
+        expect(plan.map((d) => d.recipe?.name)).toStrictEqual(['Stir fry', 'Salad']);
+    });
+
+    test('fills the tag quotas first', () => {
+        const recipes = [
+            recipe('Curry', ['chicken']),
+            recipe('Dal', ['lentils'], ['Vegetarian']),
+            recipe('Risotto', ['rice'], ['vegetarian']),
+        ];
+
+        const plan = GenerateMealPlan(recipes, days, weekStart, new Map(), options({ tagQuotas: new Map([['vegetarian', 2]]) }), first);
+
+        expect(plan.map((d) => d.recipe?.name)).toStrictEqual(['Dal', 'Risotto', 'Curry']);
+        expect(plan.map((d) => d.quotaTag)).toStrictEqual(['vegetarian', 'vegetarian', null]);
+    });
+
+    test('prefers recipes sharing ingredients', () => {
+        const recipes = [
+            recipe('Curry', ['chicken', 'coriander', 'salt']),
+            recipe('Chilli', ['beef', 'salt']),
+            recipe('Tacos', ['beef', 'coriander']),
+        ];
+
+        // Halfway through the weights picks Chilli first, then Tacos counts 3 times for sharing the beef and salt doesn't count
+        const plan = GenerateMealPlan(recipes, days.slice(0, 2), weekStart, new Map(), options({ reuseIngredients: true }), () => 0.5);
+
+        expect(plan.map((d) => d.recipe?.name)).toStrictEqual(['Chilli', 'Tacos']);
+    });
+});
+
+test('RerollDay only changes the chosen day', () => {
+    const recipes = [recipe('Curry', ['chicken']), recipe('Chilli', ['beef']), recipe('Pasta', ['pasta']), recipe('Soup', ['leek'])];
+    const plan = GenerateMealPlan(recipes, days, weekStart, new Map(), options(), first);
+
+    const rerolled = RerollDay(plan, 1, recipes, weekStart, new Map(), options(), first);
+
+    expect(rerolled.map((d) => d.recipe?.name)).toStrictEqual(['Curry', 'Soup', 'Pasta']);
+});
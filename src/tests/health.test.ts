@@ -0,0 +1,41 @@
+import { getFrontMatterInfo } from 'obsidian';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import { diagnoseIngredients } from '../recipe/health.ts';
+import { RecipeFormat } from '../settings/settings.ts';
+
+describe('diagnoseIngredients', () => {
+    beforeEach(() => {
+        vi.mocked(getFrontMatterInfo).mockImplementation((content: string) => {
+            const match = content.match(/^---\n[\s\S]*?\n---\n/);
+            return { exists: match !== null, frontmatter: '', from: 0, to: 0, contentStart: match?.[0].length ?? 0 };
+        });
+    });
+
+    test('reports a note without a RecipeMD ingredient section', () => {
+        const content = "This is an invalid recipe that's missing the ingredients section. It should be ignored.";
+
+        expect(diagnoseIngredients(content, {}, RecipeFormat.RecipeMD, false)).toEqual({
+            ingredients: 0,
+            problems: [{ error: 'NOT_RECIPE_MD_FORMAT', line: null, text: null, fix: expect.any(String) }],
+        });
+    });
+
+    test('collects every failing line with its line in the note', () => {
+        const content = '---\ntags: recipe\n---\n# Curry\n\n---\n- 1 onion\n- **\n- 200 g rice\n- ****\n---\n';
+
+        const diagnosis = diagnoseIngredients(content, {}, RecipeFormat.RecipeMD, false);
+        expect(diagnosis.ingredients).toBe(2);
+        expect(diagnosis.problems.map((p) => [p.error, p.line, p.text])).toEqual([
+            ['INGREDIENT_EMPTY', 7, '- **'],
+            ['INGREDIENT_EMPTY', 9, '- ****'],
+        ]);
+    });
+
+    test('points an unfinished ingredient section at its first rule, not the frontmatter', () => {
+        const content = '---\ntags: recipe\n---\n# Curry\n\n---\n- 1 onion\n';
+
+        expect(diagnoseIngredients(content, {}, RecipeFormat.RecipeMD, false).problems).toEqual([
+            { error: 'INGREDIENT_SECTION_DOESNT_END', line: 5, text: null, fix: expect.any(String) },
+        ]);
+    });
+});
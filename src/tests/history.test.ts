@@ -0,0 +1,32 @@
+import moment from 'moment';
+import { expect, test } from 'vitest';
+import type { CalendarItem } from '../meal_plan/calendar_data.ts';
+import { BuildMealHistory, formatHistory } from '../meal_plan/history.ts';
+
+test('BuildMealHistory', () => {
+    const dailyItems = new Map<string, CalendarItem[]>([
+        [
+            '2024-01-08',
+            [
+                { name: 'Dinners/Curry', isRecipe: true },
+                { name: 'Eating out', isRecipe: false },
+            ],
+        ],
+        ['2023-06-01', [{ name: 'curry', isRecipe: true }]],
+        ['2024-01-10', [{ name: 'Chilli', isRecipe: true, multiplier: 2 }]],
+        ['2024-01-12', [{ name: 'Curry', isRecipe: true }]],
+    ]);
+
+    const history = BuildMealHistory(dailyItems, moment('2024-01-10'));
+
+    expect([...history.keys()]).toStrictEqual(['curry', 'chilli']);
+    expect(history.get('curry')?.count).toBe(2);
+    expect(history.get('curry')?.lastPlanned.format('YYYY-MM-DD')).toBe('2024-01-08');
+    expect(history.get('chilli')?.count).toBe(1);
+});
+
+test('formatHistory', () => {
+    expect(formatHistory(undefined)).toBe('Never planned');
+    expect(formatHistory({ count: 1, lastPlanned: moment('2024-01-08') })).toBe('Planned once, last on Monday, January 8th 2024');
+    expect(formatHistory({ count: 3, lastPlanned: moment('2024-01-08') })).toBe('Planned 3 times, last on Monday, January 8th 2024');
+});
@@ -0,0 +1,26 @@
+import type { CachedMetadata } from 'obsidian';
+import { expect, test } from 'vitest';
+import { GetIngredientLines } from '../recipe/ingredients.ts';
+import { RecipeFormat } from '../settings/settings.ts';
+
+/**
+ * The metadata cache's headings of a note
+ */
+function metadata(content: string): CachedMetadata {
+    const headings = [...content.matchAll(/^(#+) (.*)$/gm)].map((m) => ({
+        heading: m[2],
+        level: m[1].length,
+        position: { start: { line: 0, col: 0, offset: m.index }, end: { line: 0, col: 0, offset: m.index + m[0].length } },
+    }));
+    return { headings };
+}
+
+test('GetIngredientLines keeps the headings that group ingredients', () => {
+    const content = '# Curry\n## Ingredients\n- 1 onion\n### Sauce\n- 200 ml cream\n### Directions\n1. Fry the onion\n2. Add the cream\n';
+
+    expect(GetIngredientLines(content, metadata(content), RecipeFormat.MealPlan).unwrap()).toEqual([
+        '- 1 onion',
+        '### Sauce',
+        '- 200 ml cream',
+    ]);
+});
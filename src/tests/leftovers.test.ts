@@ -0,0 +1,55 @@
+import { describe, expect, test } from 'vitest';
+import type { CalendarItem } from '../meal_plan/calendar_data.ts';
+import { formatLeftoversEntry, isLeftoversLink, linkLeftovers, parseLeftoversPrefix } from '../meal_plan/leftovers.ts';
+
+describe('parseLeftoversPrefix', () => {
+    test('splits the prefix off a leftovers entry', () => {
+        expect(parseLeftoversPrefix(formatLeftoversEntry('Curry'))).toEqual({ leftovers: true, text: '[[Curry]]' });
+        expect(parseLeftoversPrefix(' leftovers:[[Curry]]')).toEqual({ leftovers: true, text: '[[Curry]]' });
+    });
+
+    test('leaves other entries alone', () => {
+        expect(parseLeftoversPrefix('[[Curry]]')).toEqual({ leftovers: false, text: '[[Curry]]' });
+    });
+});
+
+describe('isLeftoversLink', () => {
+    test('finds the prefix before a link in a list item', () => {
+        const content = '## Monday\n- [[Curry]]\n- [ ] Leftovers: [[Curry]]\n';
+
+        expect(isLeftoversLink(content, content.indexOf('[[Curry]]'))).toBe(false);
+        expect(isLeftoversLink(content, content.lastIndexOf('[[Curry]]'))).toBe(true);
+    });
+
+    test('finds the prefix before a link in a table cell, after the slot', () => {
+        const content = '| January 8th | [[Curry]] | Eating out<br>Dinner: Leftovers: [[Curry]] |';
+
+        expect(isLeftoversLink(content, content.indexOf('[[Curry]]'))).toBe(false);
+        expect(isLeftoversLink(content, content.lastIndexOf('[[Curry]]'))).toBe(true);
+    });
+});
+
+describe('linkLeftovers', () => {
+    test('links leftovers to the last day the recipe was cooked before them', () => {
+        const leftovers: CalendarItem = { name: 'Curry', isRecipe: true, leftovers: true };
+        const sameDay: CalendarItem = { name: 'Chilli', isRecipe: true, leftovers: true };
+        const dailyItems = new Map<string, CalendarItem[]>([
+            ['2024-01-10', [leftovers, { name: 'Chilli', isRecipe: true }]],
+            ['2024-01-08', [{ name: 'Curry', isRecipe: true }]],
+            ['2024-01-01', [{ name: 'Curry', isRecipe: true }]],
+            ['2024-01-11', [sameDay]],
+        ]);
+
+        linkLeftovers(dailyItems);
+
+        expect(leftovers.leftoversFrom).toBe('2024-01-08');
+        expect(sameDay.leftoversFrom).toBe('2024-01-10');
+    });
+
+    test('leaves leftovers without an earlier day unlinked', () => {
+        const leftovers: CalendarItem = { name: 'Curry', isRecipe: true, leftovers: true };
+        linkLeftovers(new Map([['2024-01-10', [leftovers]]]));
+
+        expect(leftovers.leftoversFrom).toBeUndefined();
+    });
+});
@@ -6,11 +6,14 @@ import type { Context } from '../context.ts';
 import {
     AddRecipeToMealPlan,
     AddRecipeToMealPlanByDate,
+    addLeftoversToContent,
     addRecipeToTable,
     convertListToTable,
     convertTableToList,
     createTableWeekSection,
     detectMealPlanFormat,
+    ensureWeekInContent,
+    moveItemInContent,
     RemoveRecipeFromMealPlan,
 } from '../meal_plan/plan.ts';
 import { Recipe } from '../recipe/recipe.ts';
@@ -167,6 +170,17 @@ test('addRecipeToTable_multipleWeeks_addToCorrectWeek', () => {
     expect(result).toContain('| January 8th |  |  |  |  |  | [[Recipe B]] |  |');
 });
 
+test('addRecipeToTable_withMultiplier', () => {
+    const content = `| Week Start | Sunday | Monday | Tuesday | Wednesday | Thursday | Friday | Saturday |
+|---|---|---|---|---|---|---|---|
+| January 8th | | | | | | | |
+`;
+
+    const result = addRecipeToTable(content, 'January 8th', 'Monday', 'Butter Chicken', 2);
+
+    expect(result).toContain('| January 8th |  | [[Butter Chicken]] x2 |');
+});
+
 describe('AddRecipeToMealPlan integration tests', () => {
     let mockContext: Context;
     let mockRecipe: Recipe;
@@ -218,10 +232,12 @@ describe('AddRecipeToMealPlan integration tests', () => {
             } as any,
             plugin: {} as any,
             recipes: writable([]),
+            history: writable(new Map()),
             ingredients: {} as any,
             getRecipeFolder: vi.fn(),
             isInRecipeFolder: vi.fn(),
-            loadRecipes: vi.fn(),
+            recipeIndex: {} as any,
+            loadHistory: vi.fn(),
             debugMode: vi.fn().mockReturnValue(false),
         };
     });
@@ -359,10 +375,12 @@ describe('AddRecipeToMealPlanByDate integration tests', () => {
             } as any,
             plugin: {} as any,
             recipes: writable([]),
+            history: writable(new Map()),
             ingredients: {} as any,
             getRecipeFolder: vi.fn(),
             isInRecipeFolder: vi.fn(),
-            loadRecipes: vi.fn(),
+            recipeIndex: {} as any,
+            loadHistory: vi.fn(),
             debugMode: vi.fn().mockReturnValue(false),
         };
     });
@@ -385,6 +403,23 @@ describe('AddRecipeToMealPlanByDate integration tests', () => {
         expect(fileContent).toContain('## Monday\n- [[Test Recipe]]');
     });
 
+    test('should write the servings multiplier after the recipe link', async () => {
+        fileContent = `# Week of January 7th
+## Sunday
+## Monday
+## Tuesday
+## Wednesday
+## Thursday
+## Friday
+## Saturday
+`;
+
+        const targetDate = moment('2024-01-08');
+        await AddRecipeToMealPlanByDate(mockContext, mockRecipe, targetDate, 'Monday', 1.5);
+
+        expect(fileContent).toContain('## Monday\n- [[Test Recipe]] x1.5');
+    });
+
     test('should add recipe to specific date in table format', async () => {
         // January 7th 2024 is a Sunday, so "Week of January 7th" is the correct week start
         fileContent = `| Week Start | Sunday | Monday | Tuesday | Wednesday | Thursday | Friday | Saturday |
@@ -525,10 +560,12 @@ describe('RemoveRecipeFromMealPlan', () => {
             } as any,
             plugin: {} as any,
             recipes: writable([]),
+            history: writable(new Map()),
             ingredients: {} as any,
             getRecipeFolder: vi.fn(),
             isInRecipeFolder: vi.fn(),
-            loadRecipes: vi.fn(),
+            recipeIndex: {} as any,
+            loadHistory: vi.fn(),
             debugMode: vi.fn().mockReturnValue(false),
         };
     });
@@ -667,6 +704,35 @@ describe('RemoveRecipeFromMealPlan', () => {
         expect(fileContent).toMatch(/\| January 7th \|[^|]*\|[^[]*\|/);
     });
 
+    test('should remove recipe with a servings multiplier from list format', async () => {
+        fileContent = `# Week of January 7th
+## Sunday
+## Monday
+- [[Test Recipe]] x2
+- [[Another Recipe]]
+## Tuesday
+`;
+
+        const targetDate = moment('2024-01-08'); // Monday
+        await RemoveRecipeFromMealPlan(mockContext, 'Test Recipe', targetDate);
+
+        expect(fileContent).not.toContain('[[Test Recipe]]');
+        expect(fileContent).not.toContain('x2');
+        expect(fileContent).toContain('## Monday\n- [[Another Recipe]]');
+    });
+
+    test('should remove recipe with a servings multiplier from table format', async () => {
+        fileContent = `| Week Start | Sunday | Monday | Tuesday | Wednesday | Thursday | Friday | Saturday |
+|---|---|---|---|---|---|---|---|
+| January 7th |  | [[Recipe 1]] x2<br>[[Recipe 2]] |  |  |  |  |  |
+`;
+
+        const targetDate = moment('2024-01-08'); // Monday
+        await RemoveRecipeFromMealPlan(mockContext, 'Recipe 1', targetDate);
+
+        expect(fileContent).toContain('| January 7th |  | [[Recipe 2]] |');
+    });
+
     test('should handle recipes with special characters', async () => {
         fileContent = `# Week of January 7th
 ## Sunday
@@ -1053,10 +1119,12 @@ describe('AddRecipeToMealPlanByDate with future weeks', () => {
             } as any,
             plugin: {} as any,
             recipes: writable([]),
+            history: writable(new Map()),
             ingredients: {} as any,
             getRecipeFolder: vi.fn(),
             isInRecipeFolder: vi.fn(),
-            loadRecipes: vi.fn(),
+            recipeIndex: {} as any,
+            loadHistory: vi.fn(),
             debugMode: vi.fn().mockReturnValue(false),
         };
     });
@@ -1278,6 +1346,26 @@ describe('AddRecipeToMealPlanByDate with future weeks', () => {
         expect(jan13Index).toBeLessThan(jan27Index);
         expect(jan27Index).toBeLessThan(feb17Index);
     });
+
+    test('should add the recurring entries to a new week only', async () => {
+        const settings = new MealSettings();
+        settings.mealPlanNote = 'Meal Plan';
+        settings.startOfWeek = 0; // Sunday
+        settings.mealPlanFormat = MealPlanFormat.Table;
+        settings.recurringRules = [{ entry: '[[Pizza]]', day: 'Friday', slot: '', interval: 1, start: '2024-01-01', end: '' }];
+        mockContext.settings = writable(settings);
+
+        fileContent = `| Week Start | Sunday | Monday | Tuesday | Wednesday | Thursday | Friday | Saturday |
+|---|---|---|---|---|---|---|---|
+| January 7th | | | | | | | |
+`;
+
+        await AddRecipeToMealPlanByDate(mockContext, mockRecipe, moment('2024-01-08'), 'Monday');
+        await AddRecipeToMealPlanByDate(mockContext, mockRecipe, moment('2024-01-15'), 'Monday');
+
+        expect(fileContent).toContain('| January 7th |  | [[Test Recipe]] |  |  |  |  |  |');
+        expect(fileContent).toContain('| January 14th |  | [[Test Recipe]] |  |  |  | [[Pizza]] |  |');
+    });
 });
 
 describe('detectMealPlanFormat', () => {
@@ -1333,3 +1421,276 @@ This is just random content without meal plan structure.
         expect(detectMealPlanFormat(tableContent)).toBe('table');
     });
 });
+
+describe('Meal slots', () => {
+    const slots = ['Breakfast', 'Lunch', 'Dinner'];
+    const defaultDayHeaders = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+    let mockContext: Context;
+    let mockRecipe: Recipe;
+    let fileContent: string;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+
+        fileContent = '';
+        mockRecipe = new Recipe({ path: 'test-recipe.md', basename: 'Test Recipe' } as any);
+
+        const mockVault = {
+            getFileByPath: vi.fn().mockReturnValue({
+                vault: {
+                    process: vi.fn((_file, callback) => {
+                        fileContent = callback(fileContent);
+                        return Promise.resolve();
+                    }),
+                },
+            }),
+            process: vi.fn((_file, callback) => {
+                fileContent = callback(fileContent);
+                return Promise.resolve();
+            }),
+            create: vi.fn().mockResolvedValue({}),
+        };
+
+        const settings = new MealSettings();
+        settings.mealPlanNote = 'Meal Plan';
+        settings.startOfWeek = 0; // Sunday
+        settings.mealSlots = slots;
+
+        mockContext = {
+            settings: writable(settings),
+            app: {
+                vault: mockVault,
+            } as any,
+            plugin: {} as any,
+            recipes: writable([]),
+            history: writable(new Map()),
+            ingredients: {} as any,
+            getRecipeFolder: vi.fn(),
+            isInRecipeFolder: vi.fn(),
+            recipeIndex: {} as any,
+            loadHistory: vi.fn(),
+            debugMode: vi.fn().mockReturnValue(false),
+        };
+    });
+
+    test('addRecipeToTable writes the slot prefix', () => {
+        const content = `| Week Start | Sunday | Monday | Tuesday | Wednesday | Thursday | Friday | Saturday |
+|---|---|---|---|---|---|---|---|
+| January 8th | | [[Porridge]] | | | | | |
+`;
+
+        const result = addRecipeToTable(content, 'January 8th', 'Monday', 'Butter Chicken', 2, 'Dinner');
+
+        expect(result).toContain('| January 8th |  | [[Porridge]]<br>Dinner: [[Butter Chicken]] x2 |');
+    });
+
+    test('should add slot headings to the list format in slot order', async () => {
+        fileContent = `# Week of January 7th
+## Sunday
+## Monday
+- [[Snack]]
+### Dinner
+- [[Curry]]
+## Tuesday
+`;
+
+        const monday = moment('2024-01-08');
+        await AddRecipeToMealPlanByDate(mockContext, mockRecipe, monday, 'Monday', 1, 'Breakfast');
+        await AddRecipeToMealPlanByDate(mockContext, mockRecipe, monday, 'Monday', 1, 'Dinner');
+        await AddRecipeToMealPlanByDate(mockContext, mockRecipe, moment('2024-01-09'), 'Tuesday', 1, 'Lunch');
+
+        expect(fileContent).toBe(`# Week of January 7th
+## Sunday
+## Monday
+- [[Snack]]
+### Breakfast
+- [[Test Recipe]]
+### Dinner
+- [[Test Recipe]]
+- [[Curry]]
+## Tuesday
+### Lunch
+- [[Test Recipe]]
+`);
+    });
+
+    test('should only remove the recipe from the given slot in the list format', async () => {
+        fileContent = `# Week of January 7th
+## Sunday
+## Monday
+### Lunch
+- [[Test Recipe]]
+### Dinner
+- [[Test Recipe]]
+## Tuesday
+`;
+
+        await RemoveRecipeFromMealPlan(mockContext, 'Test Recipe', moment('2024-01-08'), 'Dinner');
+
+        expect(fileContent).toContain('### Lunch\n- [[Test Recipe]]\n### Dinner\n## Tuesday');
+    });
+
+    test('should only remove the recipe from the given slot in the table format', async () => {
+        fileContent = `| Week Start | Sunday | Monday | Tuesday | Wednesday | Thursday | Friday | Saturday |
+|---|---|---|---|---|---|---|---|
+| January 7th |  | Lunch: [[Test Recipe]]<br>Dinner: [[Test Recipe]] x2 |  |  |  |  |  |
+`;
+
+        await RemoveRecipeFromMealPlan(mockContext, 'Test Recipe', moment('2024-01-08'), 'Dinner');
+
+        expect(fileContent).toContain('| January 7th |  | Lunch: [[Test Recipe]] |');
+    });
+
+    test('converting keeps the slots', () => {
+        const listContent = `# Week of January 8th
+## Sunday
+## Monday
+- Eating out
+### Breakfast
+- [[Porridge]]
+### Dinner
+- [[Curry]] x2
+## Tuesday
+## Wednesday
+## Thursday
+## Friday
+## Saturday
+`;
+
+        const table = convertListToTable(listContent, defaultDayHeaders);
+        expect(table).toContain('| January 8th |  | Eating out<br>Breakfast: [[Porridge]]<br>Dinner: [[Curry]] x2 |');
+
+        const list = convertTableToList(table, defaultDayHeaders, slots);
+        expect(list).toContain('## Monday\n- Eating out\n### Breakfast\n- [[Porridge]]\n### Dinner\n- [[Curry]] x2\n## Tuesday');
+    });
+});
+
+describe('moveItemInContent', () => {
+    const slots = ['Dinner'];
+    const list = `# Week of January 8th
+## Monday
+- Eating out
+- [[Curry]] x2
+## Tuesday
+### Dinner
+- [[Chilli]]
+## Wednesday
+## Thursday
+## Friday
+## Saturday
+## Sunday
+`;
+    const table = `| Week Start | Monday | Tuesday | Wednesday | Thursday | Friday | Saturday | Sunday |
+|---|---|---|---|---|---|---|---|
+| January 8th | Eating out<br>Dinner: [[Curry]] | | | | | | |
+`;
+
+    test('moves a recipe in the list format, keeping its multiplier and the text items', () => {
+        const result = moveItemInContent(
+            list,
+            { name: 'Curry', isRecipe: true, multiplier: 2 },
+            moment('2024-01-08'),
+            moment('2024-01-10'),
+            false,
+            1,
+            slots,
+        );
+
+        expect(result).toContain('## Monday\n- Eating out\n## Tuesday');
+        expect(result).toContain('## Wednesday\n- [[Curry]] x2\n## Thursday');
+    });
+
+    test('adds the week when moving to a week that is not in the note yet', () => {
+        const item = { name: 'Chilli', isRecipe: true, slot: 'Dinner' };
+        const result = moveItemInContent(list, item, moment('2024-01-09'), moment('2024-01-17'), false, 1, slots);
+
+        expect(result).toContain('## Tuesday\n### Dinner\n## Wednesday');
+        expect(result).toContain('# Week of January 15th\n## Monday\n## Tuesday\n## Wednesday\n### Dinner\n- [[Chilli]]\n## Thursday');
+    });
+
+    test('copies instead of moving', () => {
+        const result = moveItemInContent(
+            list,
+            { name: 'Eating out', isRecipe: false },
+            moment('2024-01-08'),
+            moment('2024-01-12'),
+            true,
+            1,
+            slots,
+        );
+
+        expect(result).toContain('## Monday\n- Eating out\n- [[Curry]] x2');
+        expect(result).toContain('## Friday\n- Eating out\n## Saturday');
+    });
+
+    test('moves entries in the table format', () => {
+        const recipe = { name: 'Curry', isRecipe: true, slot: 'Dinner' };
+        expect(moveItemInContent(table, recipe, moment('2024-01-08'), moment('2024-01-09'), false, 1, slots)).toContain(
+            '| January 8th | Eating out | Dinner: [[Curry]] |',
+        );
+
+        const text = { name: 'Eating out', isRecipe: false };
+        const result = moveItemInContent(table, text, moment('2024-01-08'), moment('2024-01-16'), false, 1, slots);
+        expect(result).toContain('| January 8th | Dinner: [[Curry]] |  |');
+        expect(result).toContain('| January 15th |  | Eating out |');
+    });
+
+    test('leaves the content unchanged when the entry is not found', () => {
+        const result = moveItemInContent(
+            table,
+            { name: 'Soup', isRecipe: true },
+            moment('2024-01-08'),
+            moment('2024-01-16'),
+            false,
+            1,
+            slots,
+        );
+
+        expect(result).toBe(table);
+    });
+});
+
+describe('addLeftoversToContent', () => {
+    const list = `# Week of January 8th
+## Monday
+- [[Curry]] x2
+## Tuesday
+## Wednesday
+## Thursday
+## Friday
+## Saturday
+## Sunday
+`;
+
+    test('adds leftovers to the following days, adding weeks as needed', () => {
+        const result = addLeftoversToContent(list, 'Curry', moment('2024-01-13'), 2, 1, null);
+
+        expect(result).toContain('## Sunday\n- Leftovers: [[Curry]]\n');
+        expect(result).toContain('# Week of January 15th\n## Monday\n- Leftovers: [[Curry]]\n## Tuesday');
+    });
+
+    test('adds leftovers to the slot in the table format', () => {
+        const table = `| Week Start | Monday | Tuesday | Wednesday | Thursday | Friday | Saturday | Sunday |
+|---|---|---|---|---|---|---|---|
+| January 8th | Dinner: [[Curry]] | Eating out | | | | | |
+`;
+        const result = addLeftoversToContent(table, 'Curry', moment('2024-01-08'), 1, 1, 'Dinner', ['Dinner']);
+
+        expect(result).toContain('| January 8th | Dinner: [[Curry]] | Eating out<br>Dinner: Leftovers: [[Curry]] |');
+    });
+
+    test('moves leftovers without touching the recipe they come from', () => {
+        const content = addLeftoversToContent(list, 'Curry', moment('2024-01-08'), 1, 1, null);
+        const item = { name: 'Curry', isRecipe: true, leftovers: true };
+        const result = moveItemInContent(content, item, moment('2024-01-09'), moment('2024-01-10'), false, 1);
+
+        expect(result).toContain('## Monday\n- [[Curry]] x2\n## Tuesday\n## Wednesday\n- Leftovers: [[Curry]]\n## Thursday');
+    });
+});
+
+test('ensureWeekInContent', () => {
+    const content = '# Week of January 15th\n## Monday\n';
+
+    expect(ensureWeekInContent(content, moment('2024-01-17'), 1, MealPlanFormat.List)).toBe(content);
+    expect(ensureWeekInContent(content, moment('2024-01-10'), 1, MealPlanFormat.List)).toMatch(/^# Week of January 8th\n## Monday\n/);
+});
@@ -0,0 +1,83 @@
+import { writable } from 'svelte/store';
+import { describe, expect, test, vi } from 'vitest';
+import { parseDuration, parseLastCooked, parseRating, parseTags } from '../recipe/metadata.ts';
+import { Recipe } from '../recipe/recipe.ts';
+import { MealSettings } from '../settings/settings.ts';
+
+test('parseTags', () => {
+    expect(parseTags(['quick', '#weeknight', 3])).toStrictEqual(['quick', 'weeknight']);
+    expect(parseTags('quick, #vegetarian dinner')).toStrictEqual(['quick', 'vegetarian', 'dinner']);
+    expect(parseTags(undefined)).toStrictEqual([]);
+});
+
+test('parseDuration', () => {
+    expect(parseDuration(45)).toBe(45);
+    expect(parseDuration('45')).toBe(45);
+    expect(parseDuration('45 min')).toBe(45);
+    expect(parseDuration('1h 30m')).toBe(90);
+    expect(parseDuration('1 hour 15 minutes')).toBe(75);
+    expect(parseDuration('1h30m')).toBe(90);
+    expect(parseDuration('1hr30min')).toBe(90);
+    expect(parseDuration('2hrs')).toBe(120);
+    expect(parseDuration('PT1H30M')).toBe(90);
+    expect(parseDuration('P1DT2H')).toBe(1560);
+    expect(parseDuration('a while')).toBeNull();
+});
+
+test('parseRating', () => {
+    expect(parseRating(4)).toBe(4);
+    expect(parseRating('4.5/5')).toBe(4.5);
+    expect(parseRating(10)).toBe(5);
+    expect(parseRating('great')).toBeNull();
+});
+
+test('parseLastCooked', () => {
+    expect(parseLastCooked('2024-01-08')?.format('YYYY-MM-DD')).toBe('2024-01-08');
+    expect(parseLastCooked('last week')).toBeNull();
+});
+
+describe('Recipe.fillMetadata', () => {
+    function fillMetadata(frontmatter: Record<string, unknown>) {
+        const file = { path: 'Curry.md', basename: 'Curry' } as any;
+        const ctx = {
+            settings: writable(new MealSettings()),
+            app: { metadataCache: { getFileCache: vi.fn().mockReturnValue({ frontmatter }) } },
+        } as any;
+
+        const recipe = new Recipe(file);
+        recipe.fillMetadata(ctx);
+        return recipe;
+    }
+
+    test('reads the documented keys', () => {
+        const recipe = fillMetadata({
+            tags: ['quick', 'spicy'],
+            cuisine: 'Indian',
+            course: 'Dinner',
+            prep_time: '15 min',
+            cook_time: '1h',
+            total_time: 80,
+            serving_size: '4 servings',
+            rating: 4.5,
+            last_cooked: '2024-01-08',
+        });
+
+        expect(recipe.tags).toStrictEqual(['quick', 'spicy']);
+        expect(recipe.cuisine).toBe('Indian');
+        expect(recipe.course).toBe('Dinner');
+        expect(recipe.prepTime).toBe(15);
+        expect(recipe.cookTime).toBe(60);
+        expect(recipe.totalTime).toBe(80);
+        expect(recipe.servings).toBe(4);
+        expect(recipe.rating).toBe(4.5);
+        expect(recipe.lastCooked?.format('YYYY-MM-DD')).toBe('2024-01-08');
+    });
+
+    test('adds up the total time when missing', () => {
+        const recipe = fillMetadata({ prep_time: 10, cook_time: '20 minutes' });
+
+        expect(recipe.totalTime).toBe(30);
+        expect(recipe.cuisine).toBeNull();
+        expect(recipe.rating).toBeNull();
+    });
+});
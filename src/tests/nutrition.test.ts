@@ -0,0 +1,66 @@
+import moment from 'moment';
+import { expect, test } from 'vitest';
+import type { CalendarItem } from '../meal_plan/calendar_data.ts';
+import { parseNutrition, SumDailyNutrition, SumWeekNutrition } from '../meal_plan/nutrition.ts';
+import { Recipe } from '../recipe/recipe.ts';
+
+function recipe(name: string, servings: number | null, frontmatter: Record<string, unknown>) {
+    const r = new Recipe({ path: `${name}.md`, basename: name } as any);
+    r.servings = servings;
+    r.nutrition = parseNutrition(frontmatter);
+    return r;
+}
+
+test('parseNutrition', () => {
+    expect(parseNutrition({ calories_kcal: 450, protein_g: '30 g', fat_g: 12.5, source: 'https://example.com' })).toStrictEqual({
+        calories: 450,
+        protein: 30,
+        fat: 12.5,
+        carbs: 0,
+    });
+    expect(parseNutrition({ serving_size: 4 })).toBeNull();
+});
+
+test('SumDailyNutrition counts one serving of each entry', () => {
+    const recipes = [
+        recipe('Curry', 2, { calories_kcal: 500, protein_g: 20, fat_g: 10, carbohydrates_g: 60 }),
+        recipe('Porridge', null, { calories_kcal: 300 }),
+        recipe('Toast', 1, {}),
+    ];
+    const dailyItems = new Map<string, CalendarItem[]>([
+        [
+            '2024-01-08',
+            [
+                { name: 'Porridge', isRecipe: true },
+                { name: 'Dinners/Curry', isRecipe: true, multiplier: 1.5 },
+                { name: 'Eating out', isRecipe: false },
+            ],
+        ],
+        ['2024-01-09', [{ name: 'Toast', isRecipe: true }]],
+        ['2024-01-10', [{ name: 'Porridge', isRecipe: true, multiplier: 2 }]],
+    ]);
+
+    const daily = SumDailyNutrition(dailyItems, recipes);
+
+    expect(daily.get('2024-01-08')).toStrictEqual({ calories: 800, protein: 20, fat: 10, carbs: 60 });
+    expect(daily.has('2024-01-09')).toBe(false);
+    expect(daily.get('2024-01-10')).toStrictEqual({ calories: 300, protein: 0, fat: 0, carbs: 0 });
+
+    expect(SumWeekNutrition(daily, moment('2024-01-07'))).toStrictEqual({ calories: 1100, protein: 20, fat: 10, carbs: 60 });
+    expect(SumWeekNutrition(daily, moment('2024-01-14'))).toBeNull();
+});
+
+test('SumDailyNutrition splits a batch across the days its leftovers are eaten', () => {
+    const recipes = [recipe('Chilli', 4, { calories_kcal: 700 })];
+    const dailyItems = new Map<string, CalendarItem[]>([
+        ['2024-01-08', [{ name: 'Chilli', isRecipe: true, multiplier: 2 }]],
+        ['2024-01-09', [{ name: 'Chilli', isRecipe: true, leftovers: true }]],
+        ['2024-01-10', [{ name: 'Chilli', isRecipe: true, leftovers: true }]],
+    ]);
+
+    const daily = SumDailyNutrition(dailyItems, recipes);
+
+    expect(daily.get('2024-01-08')?.calories).toBe(700);
+    expect(daily.get('2024-01-09')?.calories).toBe(700);
+    expect(SumWeekNutrition(daily, moment('2024-01-07'))?.calories).toBe(2100);
+});
@@ -0,0 +1,94 @@
+import { writable } from 'svelte/store';
+import { describe, expect, test, vi } from 'vitest';
+import type { Context } from '../context.ts';
+import { ReadPantry, subtractPantry } from '../meal_plan/pantry.ts';
+import { MealSettings } from '../settings/settings.ts';
+import type { Ingredient } from '../types.ts';
+
+function ingredient(description: string, quantity: number | null, unitOfMeasureID: string | null = null, unitOfMeasure = ''): Ingredient {
+    return { description, quantity, quantity2: null, unitOfMeasureID, unitOfMeasure, isGroupHeader: false } as Ingredient;
+}
+
+describe('subtractPantry', () => {
+    test('subtracts the stock from the quantity needed', () => {
+        const stock = [ingredient('eggs', 4)];
+
+        const needed = subtractPantry([ingredient('eggs', 6)], stock);
+
+        expect(needed).toStrictEqual([ingredient('eggs', 2)]);
+        expect(stock[0].quantity).toBe(0);
+    });
+
+    test('leaves out ingredients that are fully covered', () => {
+        const stock = [ingredient('flour', 1, 'kilogram', 'kg')];
+
+        const needed = subtractPantry([ingredient('flour', 200, 'gram', 'g'), ingredient('sugar', 100, 'gram', 'g')], stock);
+
+        expect(needed).toStrictEqual([ingredient('sugar', 100, 'gram', 'g')]);
+        expect(stock[0].quantity).toBe(0.8);
+    });
+
+    test('converts between compatible units', () => {
+        const needed = subtractPantry([ingredient('butter', 1, 'cup', 'cup')], [ingredient('butter', 8, 'tablespoon', 'tbsp')]);
+
+        expect(needed[0].quantity).toBe(0.5);
+        expect(needed[0].unitOfMeasure).toBe('cup');
+    });
+
+    test('ignores stock in incompatible units', () => {
+        const needed = subtractPantry([ingredient('flour', 2, 'cup', 'cup')], [ingredient('flour', 1, 'kilogram', 'kg')]);
+
+        expect(needed).toStrictEqual([ingredient('flour', 2, 'cup', 'cup')]);
+    });
+
+    test('stock without a quantity only covers ingredients without one', () => {
+        const stock = [ingredient('Rice', null)];
+
+        expect(subtractPantry([ingredient('rice', 300, 'gram', 'g')], stock)).toStrictEqual([ingredient('rice', 300, 'gram', 'g')]);
+        expect(subtractPantry([ingredient('rice', null)], stock)).toStrictEqual([]);
+    });
+
+    test('stock that is used up no longer covers ingredients without a quantity', () => {
+        const stock = [ingredient('lemon', 1)];
+
+        expect(subtractPantry([ingredient('lemon', 1)], stock)).toStrictEqual([]);
+        expect(subtractPantry([ingredient('lemon', null)], stock)).toStrictEqual([ingredient('lemon', null)]);
+    });
+
+    test('keeps a range until both ends are covered', () => {
+        const range = (quantity: number, quantity2: number) => ({ ...ingredient('tomato', quantity), quantity2 });
+        const stock = [ingredient('tomato', 2)];
+
+        expect(subtractPantry([range(2, 3)], stock)).toStrictEqual([range(0, 1)]);
+        expect(subtractPantry([range(2, 3)], [ingredient('tomato', 3)])).toStrictEqual([]);
+    });
+
+    test('uses the stock up across calls', () => {
+        const stock = [ingredient('onion', 3)];
+
+        expect(subtractPantry([ingredient('onion', 2)], stock)).toStrictEqual([]);
+        expect(subtractPantry([ingredient('onion', 2)], stock)).toStrictEqual([ingredient('onion', 1)]);
+    });
+});
+
+describe('ReadPantry', () => {
+    test('skips the lines that fail to parse', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const ctx = {
+            settings: writable(new MealSettings()),
+            app: {
+                vault: {
+                    getFileByPath: () => ({ path: 'Pantry.md' }),
+                    read: async () => '# Pantry\nWhat we have at home\n- 1kg flour\n- **\n- 6 eggs\n',
+                },
+            },
+        } as unknown as Context;
+
+        const pantry = await ReadPantry(ctx);
+
+        expect(pantry.map((i) => [i.description, i.quantity])).toEqual([
+            ['flour', 1],
+            ['eggs', 6],
+        ]);
+    });
+});
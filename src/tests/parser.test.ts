@@ -1,6 +1,12 @@
 import { expect, test } from 'vitest';
 import type { Ingredient } from '../types.ts';
-import { AdvancedParse, GetIngredientsFromList, GetRecipeMDFormatBoundedList } from '../utils/parser.ts';
+import {
+    AdvancedParse,
+    GetIngredientsFromList,
+    GetRecipeMDFormatBoundedList,
+    ParseGroupHeader,
+    ParseIngredientList,
+} from '../utils/parser.ts';
 
 test('GetRecipeMDFormatBoundedList', () => {
     interface Test {
@@ -72,6 +78,7 @@ test('GetRecipeMDFormatBoundedList', () => {
                     altUnitOfMeasure: null,
                     altUnitOfMeasureID: null,
                     description: 'Chicken Thigh',
+                    group: null,
                     isGroupHeader: false,
                     quantity: 6,
                     quantity2: 8,
@@ -83,6 +90,7 @@ test('GetRecipeMDFormatBoundedList', () => {
                     altUnitOfMeasure: null,
                     altUnitOfMeasureID: null,
                     description: 'ground cumin',
+                    group: 'Chicken Marinade',
                     isGroupHeader: false,
                     quantity: 1,
                     quantity2: null,
@@ -94,6 +102,7 @@ test('GetRecipeMDFormatBoundedList', () => {
                     altUnitOfMeasure: null,
                     altUnitOfMeasureID: null,
                     description: 'ground coriander',
+                    group: 'Chicken Marinade',
                     isGroupHeader: false,
                     quantity: 1,
                     quantity2: null,
@@ -105,6 +114,7 @@ test('GetRecipeMDFormatBoundedList', () => {
                     altUnitOfMeasure: null,
                     altUnitOfMeasureID: null,
                     description: 'turmeric powder',
+                    group: 'Chicken Marinade',
                     isGroupHeader: false,
                     quantity: 0.5,
                     quantity2: null,
@@ -116,6 +126,7 @@ test('GetRecipeMDFormatBoundedList', () => {
                     altUnitOfMeasure: null,
                     altUnitOfMeasureID: null,
                     description: 'garam masala',
+                    group: 'Chicken Marinade',
                     isGroupHeader: false,
                     quantity: 1,
                     quantity2: null,
@@ -128,6 +139,7 @@ test('GetRecipeMDFormatBoundedList', () => {
                     altUnitOfMeasure: null,
                     altUnitOfMeasureID: null,
                     description: 'Kashmiri red chili powder',
+                    group: 'Chicken Marinade',
                     isGroupHeader: false,
                     quantity: 1,
                     quantity2: null,
@@ -139,6 +151,7 @@ test('GetRecipeMDFormatBoundedList', () => {
                     altUnitOfMeasure: null,
                     altUnitOfMeasureID: null,
                     description: 'salt',
+                    group: 'Chicken Marinade',
                     isGroupHeader: false,
                     quantity: 1,
                     quantity2: null,
@@ -150,6 +163,7 @@ test('GetRecipeMDFormatBoundedList', () => {
                     altUnitOfMeasure: null,
                     altUnitOfMeasureID: null,
                     description: 'yogurt',
+                    group: 'Chicken Marinade',
                     isGroupHeader: false,
                     quantity: 3,
                     quantity2: null,
@@ -161,6 +175,7 @@ test('GetRecipeMDFormatBoundedList', () => {
                     altUnitOfMeasure: null,
                     altUnitOfMeasureID: null,
                     description: 'Lemon',
+                    group: 'Chicken Marinade',
                     isGroupHeader: false,
                     quantity: 0.5,
                     quantity2: null,
@@ -172,6 +187,7 @@ test('GetRecipeMDFormatBoundedList', () => {
                     altUnitOfMeasure: null,
                     altUnitOfMeasureID: null,
                     description: 'cinnamon stick',
+                    group: 'Whole Spices',
                     isGroupHeader: false,
                     quantity: 1,
                     quantity2: null,
@@ -183,6 +199,7 @@ test('GetRecipeMDFormatBoundedList', () => {
                     altUnitOfMeasure: null,
                     altUnitOfMeasureID: null,
                     description: 'clove',
+                    group: 'Whole Spices',
                     isGroupHeader: false,
                     quantity: 3,
                     quantity2: null,
@@ -194,6 +211,7 @@ test('GetRecipeMDFormatBoundedList', () => {
                     altUnitOfMeasure: null,
                     altUnitOfMeasureID: null,
                     description: 'green cardamom pod',
+                    group: 'Whole Spices',
                     isGroupHeader: false,
                     quantity: 3,
                     quantity2: null,
@@ -205,6 +223,7 @@ test('GetRecipeMDFormatBoundedList', () => {
                     altUnitOfMeasure: null,
                     altUnitOfMeasureID: null,
                     description: 'black cardamom pod',
+                    group: 'Whole Spices',
                     isGroupHeader: false,
                     quantity: 1,
                     quantity2: null,
@@ -216,6 +235,7 @@ test('GetRecipeMDFormatBoundedList', () => {
                     altUnitOfMeasure: null,
                     altUnitOfMeasureID: null,
                     description: 'bay leaf',
+                    group: 'Whole Spices',
                     isGroupHeader: false,
                     quantity: 1,
                     quantity2: null,
@@ -227,6 +247,7 @@ test('GetRecipeMDFormatBoundedList', () => {
                     altUnitOfMeasure: null,
                     altUnitOfMeasureID: null,
                     description: 'oil',
+                    group: 'Whole Spices',
                     isGroupHeader: false,
                     quantity: 2,
                     quantity2: null,
@@ -238,6 +259,7 @@ test('GetRecipeMDFormatBoundedList', () => {
                     altUnitOfMeasure: null,
                     altUnitOfMeasureID: null,
                     description: 'onion',
+                    group: 'Whole Spices',
                     isGroupHeader: false,
                     quantity: 2,
                     quantity2: null,
@@ -249,6 +271,7 @@ test('GetRecipeMDFormatBoundedList', () => {
                     altUnitOfMeasure: null,
                     altUnitOfMeasureID: null,
                     description: 'garlic clove',
+                    group: 'Whole Spices',
                     isGroupHeader: false,
                     quantity: 5,
                     quantity2: null,
@@ -260,6 +283,7 @@ test('GetRecipeMDFormatBoundedList', () => {
                     altUnitOfMeasure: null,
                     altUnitOfMeasureID: null,
                     description: 'green chilly',
+                    group: 'Whole Spices',
                     isGroupHeader: false,
                     quantity: 2,
                     quantity2: null,
@@ -271,6 +295,7 @@ test('GetRecipeMDFormatBoundedList', () => {
                     altUnitOfMeasure: null,
                     altUnitOfMeasureID: null,
                     description: 'tomato paste',
+                    group: 'Whole Spices',
                     isGroupHeader: false,
                     quantity: 3,
                     quantity2: null,
@@ -282,6 +307,7 @@ test('GetRecipeMDFormatBoundedList', () => {
                     altUnitOfMeasure: null,
                     altUnitOfMeasureID: null,
                     description: 'heavy cream',
+                    group: 'Whole Spices',
                     isGroupHeader: false,
                     quantity: 0.5,
                     quantity2: null,
@@ -293,6 +319,7 @@ test('GetRecipeMDFormatBoundedList', () => {
                     altUnitOfMeasure: null,
                     altUnitOfMeasureID: null,
                     description: 'water',
+                    group: 'Whole Spices',
                     isGroupHeader: false,
                     quantity: 0.75,
                     quantity2: null,
@@ -304,6 +331,7 @@ test('GetRecipeMDFormatBoundedList', () => {
                     altUnitOfMeasure: null,
                     altUnitOfMeasureID: null,
                     description: 'butter',
+                    group: 'Spices for the base',
                     isGroupHeader: false,
                     quantity: 2,
                     quantity2: null,
@@ -315,6 +343,7 @@ test('GetRecipeMDFormatBoundedList', () => {
                     altUnitOfMeasure: null,
                     altUnitOfMeasureID: null,
                     description: 'ground cumin',
+                    group: 'Spices for the base',
                     isGroupHeader: false,
                     quantity: 1,
                     quantity2: null,
@@ -326,6 +355,7 @@ test('GetRecipeMDFormatBoundedList', () => {
                     altUnitOfMeasure: null,
                     altUnitOfMeasureID: null,
                     description: 'ground coriander',
+                    group: 'Spices for the base',
                     isGroupHeader: false,
                     quantity: 1,
                     quantity2: null,
@@ -337,6 +367,7 @@ test('GetRecipeMDFormatBoundedList', () => {
                     altUnitOfMeasure: null,
                     altUnitOfMeasureID: null,
                     description: 'tumeric powder',
+                    group: 'Spices for the base',
                     isGroupHeader: false,
                     quantity: 0.5,
                     quantity2: null,
@@ -348,6 +379,7 @@ test('GetRecipeMDFormatBoundedList', () => {
                     altUnitOfMeasure: null,
                     altUnitOfMeasureID: null,
                     description: 'Kashmiri red chilli powder',
+                    group: 'Spices for the base',
                     isGroupHeader: false,
                     quantity: 1,
                     quantity2: null,
@@ -359,6 +391,7 @@ test('GetRecipeMDFormatBoundedList', () => {
                     altUnitOfMeasure: null,
                     altUnitOfMeasureID: null,
                     description: 'sugar',
+                    group: 'Spices for the base',
                     isGroupHeader: false,
                     quantity: 1,
                     quantity2: null,
@@ -370,6 +403,7 @@ test('GetRecipeMDFormatBoundedList', () => {
                     altUnitOfMeasure: null,
                     altUnitOfMeasureID: null,
                     description: 'salt to taste',
+                    group: 'Spices for the base',
                     isGroupHeader: false,
                     quantity: null,
                     quantity2: null,
@@ -381,6 +415,7 @@ test('GetRecipeMDFormatBoundedList', () => {
                     altUnitOfMeasure: null,
                     altUnitOfMeasureID: null,
                     description: 'black pepper to taste',
+                    group: 'Spices for the base',
                     isGroupHeader: false,
                     quantity: null,
                     quantity2: null,
@@ -392,6 +427,7 @@ test('GetRecipeMDFormatBoundedList', () => {
                     altUnitOfMeasure: null,
                     altUnitOfMeasureID: null,
                     description: 'kasoori menthi',
+                    group: 'Spices for the base',
                     isGroupHeader: false,
                     quantity: 2,
                     quantity2: null,
@@ -403,6 +439,7 @@ test('GetRecipeMDFormatBoundedList', () => {
                     altUnitOfMeasure: null,
                     altUnitOfMeasureID: null,
                     description: 'Fresh cilantro',
+                    group: 'Spices for the base',
                     isGroupHeader: false,
                     quantity: null,
                     quantity2: null,
@@ -443,3 +480,38 @@ test('AdvancedParsing', () => {
         expect(ingredient).toStrictEqual(test.output);
     }
 });
+
+test('ParseGroupHeader', () => {
+    expect(ParseGroupHeader('## Sauce')).toBe('Sauce');
+    expect(ParseGroupHeader('- For the sauce:')).toBe('For the sauce');
+    expect(ParseGroupHeader('- *Garnish:*')).toBe('Garnish');
+    expect(ParseGroupHeader('- 1 tsp salt')).toBeNull();
+    expect(ParseGroupHeader('- salt to taste')).toBeNull();
+});
+
+test('GetIngredientsFromList keeps the group of each ingredient', () => {
+    const list = ['- 200g spaghetti', '- For the sauce:', '- 1 tsp salt', '- 2 tomatoes', '## Topping', '- 1 tsp salt'];
+
+    const actual = GetIngredientsFromList(list, true, false).expect('Parsed ingredients');
+
+    expect(actual.map((i) => [i.description, i.group])).toEqual([
+        ['spaghetti', null],
+        ['salt', 'For the sauce'],
+        ['tomato', 'For the sauce'],
+        ['salt', 'Topping'],
+    ]);
+});
+
+test('GetRecipeMDFormatBoundedList fails without an ingredient section', () => {
+    expect(GetRecipeMDFormatBoundedList("This is an invalid recipe that's missing the ingredients section.").isErr()).toBe(true);
+});
+
+test('ParseIngredientList collects every line that fails', () => {
+    const { ingredients, failures } = ParseIngredientList(['- 1 onion', '- **', '[[Stock]]', '- 200 g rice', '- ****'], true, false);
+
+    expect(ingredients.map((i) => i.description)).toEqual(['onion', 'rice']);
+    expect(failures).toEqual([
+        { line: '- **', error: 'INGREDIENT_EMPTY' },
+        { line: '- ****', error: 'INGREDIENT_EMPTY' },
+    ]);
+});
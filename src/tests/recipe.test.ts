@@ -1,10 +1,11 @@
+import { getFrontMatterInfo } from 'obsidian';
 import { writable } from 'svelte/store';
 import { Err, Ok } from 'ts-results-es';
 import { beforeEach, describe, expect, test, vi } from 'vitest';
 import type { Context } from '../context.ts';
 import * as IngredientsModule from '../recipe/ingredients.ts';
 import { Recipe } from '../recipe/recipe.ts';
-import { MealSettings } from '../settings/settings.ts';
+import { MealSettings, RecipeFormat } from '../settings/settings.ts';
 import { ErrCtx } from '../utils/result.ts';
 
 import { noticeCalls } from './__mocks__/obsidian.ts';
@@ -17,6 +18,7 @@ describe('Recipe.fillIngredients', () => {
     beforeEach(() => {
         // Reset all mocks before each test
         vi.clearAllMocks();
+        vi.restoreAllMocks();
         noticeCalls.length = 0; // Clear the array
 
         // Spy on console.error
@@ -35,10 +37,12 @@ describe('Recipe.fillIngredients', () => {
             app: {} as any,
             plugin: {} as any,
             recipes: writable([]),
+            history: writable(new Map()),
             ingredients: {} as any,
             getRecipeFolder: vi.fn(),
             isInRecipeFolder: vi.fn(),
-            loadRecipes: vi.fn(),
+            recipeIndex: {} as any,
+            loadHistory: vi.fn(),
             debugMode: vi.fn().mockReturnValue(false),
         };
     });
@@ -109,9 +113,10 @@ describe('Recipe.fillIngredients', () => {
                 altQuantity: null,
                 altUnitOfMeasure: null,
                 altUnitOfMeasureID: null,
+                group: null,
             },
         ];
-        vi.spyOn(IngredientsModule, 'GetIngredients').mockResolvedValue(Ok(mockIngredients));
+        vi.spyOn(IngredientsModule, 'GetIngredients').mockResolvedValue(Ok({ ingredients: mockIngredients, failures: [] }));
 
         const recipe = new Recipe(mockFile);
         await recipe.fillIngredients(mockContext);
@@ -122,4 +127,19 @@ describe('Recipe.fillIngredients', () => {
         expect(consoleErrorSpy).not.toHaveBeenCalled();
         expect(noticeCalls).toHaveLength(0);
     });
+
+    test('keeps the ingredients that parsed when a line fails', async () => {
+        vi.mocked(getFrontMatterInfo).mockReturnValue({ exists: false, frontmatter: '', from: 0, to: 0, contentStart: 0 });
+        mockContext.app = {
+            vault: { read: async () => '# Curry\n\n---\n- 1 onion\n- **\n- 200 g rice\n---\n' },
+            metadataCache: { getFileCache: () => ({}) },
+        } as any;
+
+        const recipe = new Recipe(mockFile);
+        recipe.format = RecipeFormat.RecipeMD;
+        await recipe.fillIngredients(mockContext);
+
+        expect(recipe.ingredients.map((i) => i.description)).toEqual(['onion', 'rice']);
+        expect(consoleErrorSpy).toHaveBeenCalledWith("Failed to parse ingredients: Error: test-recipe.md, '- **': INGREDIENT_EMPTY");
+    });
 });
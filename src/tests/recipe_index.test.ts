@@ -0,0 +1,169 @@
+import { TFile, TFolder } from 'obsidian';
+import { get, writable } from 'svelte/store';
+import { afterEach, beforeEach, describe, expect, type MockInstance, test, vi } from 'vitest';
+import type { Context } from '../context.ts';
+import * as RecipeModule from '../recipe/recipe.ts';
+import { RECIPE_INDEX_DELAY, RecipeIndex, recipeCacheSettings } from '../recipe/recipe_index.ts';
+import { MealSettings, RecipeFormat } from '../settings/settings.ts';
+
+function file(path: string, mtime = 1): TFile {
+    const f = new TFile();
+    f.path = path;
+    f.basename = path.substring(path.lastIndexOf('/') + 1).replace(/\.md$/, '');
+    (f as any).stat = { mtime };
+    return f;
+}
+
+describe('RecipeIndex', () => {
+    let folder: TFolder;
+    let storage: Map<string, string>;
+    let ctx: Context;
+    let getRecipe: MockInstance<typeof RecipeModule.GetRecipe>;
+
+    const names = () => get(ctx.recipes).map((r) => r.name);
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+
+        folder = new TFolder();
+        folder.path = 'Meals';
+        folder.children = [file('Meals/Curry.md'), file('Meals/Pizza.md')];
+        storage = new Map();
+
+        ctx = {
+            settings: writable(new MealSettings()),
+            recipes: writable([]),
+            app: {
+                vault: {
+                    adapter: {
+                        exists: async (path: string) => storage.has(path),
+                        read: async (path: string) => storage.get(path),
+                        write: async (path: string, data: string) => {
+                            storage.set(path, data);
+                        },
+                    },
+                },
+                metadataCache: { getFileCache: () => null },
+            },
+            plugin: { manifest: { dir: '.obsidian/plugins/meals' } },
+            getRecipeFolder: () => folder,
+            isInRecipeFolder: (f: TFile) => f.path.startsWith('Meals/'),
+            debugMode: () => false,
+        } as unknown as Context;
+
+        getRecipe = vi.spyOn(RecipeModule, 'GetRecipe').mockImplementation(async (_, f) => {
+            const recipe = new RecipeModule.Recipe(f);
+            recipe.ingredients = [{ description: f.basename } as any];
+            return recipe;
+        });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    test('updates a recipe once for a burst of changes, without duplicating it', async () => {
+        const index = new RecipeIndex(ctx);
+        await index.load();
+
+        const curry = file('Meals/Curry.md', 2);
+        index.update(curry);
+        index.update(curry);
+        index.update(curry);
+        await vi.advanceTimersByTimeAsync(RECIPE_INDEX_DELAY);
+
+        expect(names()).toEqual(['Curry', 'Pizza']);
+        // Both recipes when loading, then Curry once
+        expect(getRecipe).toHaveBeenCalledTimes(3);
+    });
+
+    test('handles renamed, deleted and moved notes', async () => {
+        const index = new RecipeIndex(ctx);
+        await index.load();
+
+        index.rename(file('Meals/Thai Curry.md'), 'Meals/Curry.md');
+        index.remove('Meals/Pizza.md');
+        index.update(file('Meals/Soup.md'));
+        index.rename(file('Archive/Soup.md'), 'Meals/Soup.md');
+        await vi.advanceTimersByTimeAsync(RECIPE_INDEX_DELAY);
+
+        expect(names()).toEqual(['Thai Curry']);
+        // The renamed note hasn't changed, so it isn't read again
+        expect(getRecipe).toHaveBeenCalledTimes(2);
+    });
+
+    test('ignores notes outside the recipe folder and notes that did not change', async () => {
+        const index = new RecipeIndex(ctx);
+        await index.load();
+        const published = vi.fn();
+        const unsubscribe = ctx.recipes.subscribe(published);
+        storage.clear();
+
+        index.update(file('Meal Plan.md', 2));
+        index.update(file('Meals/Curry.md'));
+        await vi.advanceTimersByTimeAsync(RECIPE_INDEX_DELAY);
+        unsubscribe();
+
+        // Once when subscribing, but not again
+        expect(published).toHaveBeenCalledTimes(1);
+        expect(storage.size).toBe(0);
+        expect(getRecipe).toHaveBeenCalledTimes(2);
+    });
+
+    test('only reads the notes that changed since the cache was saved', async () => {
+        await new RecipeIndex(ctx).load();
+        getRecipe.mockClear();
+
+        folder.children = [file('Meals/Curry.md'), file('Meals/Pizza.md', 2)];
+        await new RecipeIndex(ctx).load();
+
+        expect(getRecipe).toHaveBeenCalledTimes(1);
+        expect(getRecipe.mock.calls[0][1].path).toBe('Meals/Pizza.md');
+        expect(get(ctx.recipes).map((r) => r.ingredients[0].description)).toEqual(['Curry', 'Pizza']);
+    });
+
+    test('throws the cache away when the parsing settings change', async () => {
+        await new RecipeIndex(ctx).load();
+        getRecipe.mockClear();
+
+        ctx.settings.update((s) => {
+            s.advancedIngredientParsing = true;
+            return s;
+        });
+        await new RecipeIndex(ctx).load();
+
+        expect(getRecipe).toHaveBeenCalledTimes(2);
+    });
+
+    test('only rescans for the settings that change the recipes', async () => {
+        const index = new RecipeIndex(ctx);
+        await index.load();
+        getRecipe.mockClear();
+
+        ctx.settings.update((s) => {
+            s.shoppingListNote = 'Groceries';
+            return s;
+        });
+        await index.settingsChanged();
+        expect(getRecipe).not.toHaveBeenCalled();
+
+        ctx.settings.update((s) => {
+            s.recipeFormat = RecipeFormat.Cooklang;
+            return s;
+        });
+        await index.settingsChanged();
+        expect(getRecipe).toHaveBeenCalledTimes(2);
+    });
+
+    test('recipeCacheSettings', () => {
+        const settings = new MealSettings();
+        const before = recipeCacheSettings(settings);
+
+        settings.recipeDirectory = 'Recipes';
+        expect(recipeCacheSettings(settings)).toBe(before);
+
+        settings.advancedIngredientParsing = !settings.advancedIngredientParsing;
+        expect(recipeCacheSettings(settings)).not.toBe(before);
+    });
+});
@@ -0,0 +1,84 @@
+import moment from 'moment';
+import { describe, expect, test } from 'vitest';
+import { addRecurringEntries } from '../meal_plan/plan.ts';
+import { RecurringEntriesForWeek, RecurringItemsForWeeks, ruleOccursOn } from '../meal_plan/recurring.ts';
+import type { RecurringRule } from '../settings/settings.ts';
+
+const pizza: RecurringRule = { entry: '[[Pizza]] x2', day: 'Friday', slot: 'Dinner', interval: 1, start: '2024-01-01', end: '' };
+const eatingOut: RecurringRule = { entry: 'Eating out', day: 'Saturday', slot: '', interval: 2, start: '2024-01-01', end: '2024-02-01' };
+
+describe('ruleOccursOn', () => {
+    test('matches the rule weekday from the start date', () => {
+        expect(ruleOccursOn(pizza, moment('2024-01-05'))).toBe(true);
+        expect(ruleOccursOn(pizza, moment('2024-01-06'))).toBe(false);
+        expect(ruleOccursOn({ ...pizza, start: '2024-01-06' }, moment('2024-01-05'))).toBe(false);
+    });
+
+    test('skips the weeks in between for longer intervals', () => {
+        expect(ruleOccursOn(eatingOut, moment('2024-01-06'))).toBe(true);
+        expect(ruleOccursOn(eatingOut, moment('2024-01-13'))).toBe(false);
+        expect(ruleOccursOn(eatingOut, moment('2024-01-20'))).toBe(true);
+    });
+
+    test('stops after the end date', () => {
+        expect(ruleOccursOn(eatingOut, moment('2024-02-03'))).toBe(false);
+    });
+
+    test('ignores rules without an entry', () => {
+        expect(ruleOccursOn({ ...pizza, entry: ' ' }, moment('2024-01-05'))).toBe(false);
+    });
+});
+
+describe('RecurringEntriesForWeek', () => {
+    test('lists the entries of each day in the week', () => {
+        const entries = RecurringEntriesForWeek([pizza, eatingOut], moment('2024-01-01'));
+
+        expect(entries.map((e) => [e.date.format('YYYY-MM-DD'), e.dayName, e.entry, e.slot])).toEqual([
+            ['2024-01-05', 'Friday', '[[Pizza]] x2', 'Dinner'],
+            ['2024-01-06', 'Saturday', 'Eating out', null],
+        ]);
+    });
+});
+
+describe('RecurringItemsForWeeks', () => {
+    test('only includes the weeks that are not planned yet', () => {
+        const items = RecurringItemsForWeeks([pizza], new Set(['2024-01-01']), moment('2024-01-01'), 3);
+
+        expect(items.has('2024-01-05')).toBe(false);
+        expect(items.get('2024-01-12')).toEqual([{ name: 'Pizza', isRecipe: true, multiplier: 2, slot: 'Dinner' }]);
+        expect(items.get('2024-01-19')).toEqual([{ name: 'Pizza', isRecipe: true, multiplier: 2, slot: 'Dinner' }]);
+    });
+});
+
+describe('addRecurringEntries', () => {
+    test('adds the entries to a week in the list format', () => {
+        const content = `# Week of January 1st
+## Monday
+## Tuesday
+## Wednesday
+## Thursday
+## Friday
+## Saturday
+## Sunday
+`;
+        const result = addRecurringEntries(
+            content,
+            moment('2024-01-01'),
+            1,
+            [pizza, eatingOut, { ...eatingOut, entry: '[[Leftovers]]' }],
+            ['Dinner'],
+        );
+
+        expect(result).toContain('## Friday\n### Dinner\n- [[Pizza]] x2\n## Saturday\n- Eating out\n- [[Leftovers]]\n## Sunday');
+    });
+
+    test('adds the entries to a week in the table format', () => {
+        const content = `| Week Start | Monday | Tuesday | Wednesday | Thursday | Friday | Saturday | Sunday |
+|---|---|---|---|---|---|---|---|
+| January 1st | | | | | | | |
+`;
+        const result = addRecurringEntries(content, moment('2024-01-01'), 1, [pizza, eatingOut], ['Dinner']);
+
+        expect(result).toContain('| January 1st |  |  |  |  | Dinner: [[Pizza]] x2 | Eating out |  |');
+    });
+});
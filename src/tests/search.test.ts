@@ -0,0 +1,95 @@
+import moment from 'moment';
+import { describe, expect, test } from 'vitest';
+import { Recipe } from '../recipe/recipe.ts';
+import { CompareRecipes, emptyFilters, MatchesFilters, RankRecipesByCoverage, RecipeSort } from '../recipe/search.ts';
+import { ShoppingListIgnoreBehaviour } from '../settings/settings.ts';
+import type { Ingredient } from '../types.ts';
+
+function recipe(name: string, ingredients: string[]): Recipe {
+    const r = new Recipe({ path: `Meals/${name}.md`, basename: name } as any);
+    r.ingredients = ingredients.map((description) => {
+        return { description, quantity: 1, unitOfMeasure: '' } as Ingredient;
+    });
+    return r;
+}
+
+describe('RankRecipesByCoverage', () => {
+    const recipes = [
+        recipe('Omelette', ['Eggs', 'milk', 'salt']),
+        recipe('Pancakes', ['flour', 'eggs', 'milk', 'sugar']),
+        recipe('Pasta', ['pasta', 'tomato sauce', 'parmesan']),
+        recipe('Empty', []),
+    ];
+
+    test('sorts by the fewest missing ingredients', () => {
+        const ranked = RankRecipesByCoverage(recipes, new Set(['eggs', 'milk']), () => false);
+
+        expect(ranked.map((r) => r.recipe.name)).toStrictEqual(['Omelette', 'Pancakes', 'Pasta']);
+        expect(ranked[0].missing).toStrictEqual(['salt']);
+        expect(ranked[1].coverage).toBe(0.5);
+        expect(ranked[2].missing).toStrictEqual(['pasta', 'tomato sauce', 'parmesan']);
+    });
+
+    test('counts always available ingredients as available', () => {
+        const ranked = RankRecipesByCoverage(recipes, new Set(['eggs', 'milk']), (d) => d === 'salt');
+
+        expect(ranked[0]).toMatchObject({ coverage: 1, missing: [] });
+    });
+});
+
+describe('MatchesFilters', () => {
+    const curry = recipe('Curry', ['chicken', 'cashew nuts', 'cream']);
+    curry.tags = ['Spicy', 'dinner'];
+    curry.cuisine = 'Indian';
+    curry.totalTime = 60;
+    curry.rating = 4;
+
+    const salad = recipe('Salad', ['lettuce', 'tomatoes']);
+
+    test('filters on the metadata', () => {
+        expect(MatchesFilters(curry, { ...emptyFilters(), tags: ['spicy'], cuisine: 'indian' })).toBe(true);
+        expect(MatchesFilters(curry, { ...emptyFilters(), tags: ['spicy', 'quick'] })).toBe(false);
+        expect(MatchesFilters(curry, { ...emptyFilters(), maxTotalTime: 45 })).toBe(false);
+        expect(MatchesFilters(curry, { ...emptyFilters(), minRating: 4 })).toBe(true);
+        expect(MatchesFilters(salad, { ...emptyFilters(), minRating: 1 })).toBe(false);
+    });
+
+    test('excludes ingredients by partial match', () => {
+        const filters = { ...emptyFilters(), excludedIngredients: ['nut'] };
+
+        expect(MatchesFilters(curry, filters)).toBe(false);
+        expect(MatchesFilters(salad, filters)).toBe(true);
+    });
+
+    test('hides recipes that break a diet profile', () => {
+        const nutFree = { name: 'nut-free', patterns: ['cashew'], behaviour: ShoppingListIgnoreBehaviour.Partial };
+        const filters = { ...emptyFilters(), dietProfiles: [nutFree] };
+
+        expect(MatchesFilters(curry, filters)).toBe(false);
+        expect(MatchesFilters(salad, filters)).toBe(true);
+    });
+});
+
+test('CompareRecipes', () => {
+    const a = recipe('A', []);
+    a.totalTime = 30;
+    a.rating = 3;
+    a.lastCooked = moment('2024-01-08');
+    const b = recipe('B', []);
+    b.totalTime = 20;
+    b.lastCooked = moment('2023-12-01');
+    const c = recipe('C', []);
+    c.rating = 5;
+
+    const sorted = (sort: RecipeSort) => [c, b, a].sort((x, y) => CompareRecipes(x, y, sort)).map((r) => r.name);
+
+    expect(sorted(RecipeSort.Name)).toStrictEqual(['A', 'B', 'C']);
+    expect(sorted(RecipeSort.Time)).toStrictEqual(['B', 'A', 'C']);
+    expect(sorted(RecipeSort.Rating)).toStrictEqual(['C', 'A', 'B']);
+    expect(sorted(RecipeSort.LeastRecentlyCooked)).toStrictEqual(['C', 'B', 'A']);
+
+    // B was planned after it was last cooked, and after A
+    const history = new Map([['b', { count: 2, lastPlanned: moment('2024-02-01') }]]);
+    const byHistory = [a, b, c].sort((x, y) => CompareRecipes(x, y, RecipeSort.NotHadInAWhile, history)).map((r) => r.name);
+    expect(byHistory).toStrictEqual(['C', 'A', 'B']);
+});
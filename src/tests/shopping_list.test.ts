@@ -1,10 +1,10 @@
 import { writable } from 'svelte/store';
 import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
 import type { Context } from '../context.ts';
-import { AddMealPlanToShoppingList, processSelectedWeeks } from '../meal_plan/shopping_list.ts';
+import { AddFileToShoppingList, AddMealPlanToShoppingList, processSelectedWeeks } from '../meal_plan/shopping_list.ts';
 import { extractWeeksFromMealPlan } from '../meal_plan/week_extractor.ts';
 import { Recipe } from '../recipe/recipe.ts';
-import { MealSettings } from '../settings/settings.ts';
+import { MealSettings, ShoppingListLayout, UnitSystem } from '../settings/settings.ts';
 import type { Ingredient } from '../types.ts';
 import * as Utils from '../utils/utils.ts';
 
@@ -145,6 +145,7 @@ describe('AddMealPlanToShoppingList', () => {
         mockContext = {
             settings: writable(settings),
             recipes: writable(mockRecipes),
+            history: writable(new Map()),
             app: {
                 vault: mockVault,
                 metadataCache: mockMetadataCache,
@@ -153,7 +154,8 @@ describe('AddMealPlanToShoppingList', () => {
             ingredients: {} as any,
             getRecipeFolder: vi.fn(),
             isInRecipeFolder: vi.fn(),
-            loadRecipes: vi.fn(),
+            recipeIndex: {} as any,
+            loadHistory: vi.fn(),
             debugMode: vi.fn().mockReturnValue(false),
         };
     });
@@ -577,6 +579,304 @@ describe('AddMealPlanToShoppingList', () => {
         const pastaMatches = shoppingListFileContent.match(/pasta/gi);
         expect(pastaMatches).toHaveLength(4);
     });
+
+    test('should scale ingredients by the servings multiplier', async () => {
+        mealPlanFileContent = `# Week of January 8th
+## Monday
+- [[Pasta]] x2
+`;
+
+        const mockMetadataCache = mockContext.app.metadataCache;
+        mockMetadataCache.getFileCache = vi.fn((file) => {
+            if (file.path === 'Meal Plan.md') {
+                return {
+                    headings: [
+                        {
+                            heading: 'Week of January 8th',
+                            level: 1,
+                            position: {
+                                start: { line: 0, col: 0, offset: 0 },
+                                end: { line: 0, col: 21, offset: 21 },
+                            },
+                        },
+                    ],
+                    links: [
+                        {
+                            link: 'Pasta',
+                            original: '[[Pasta]]',
+                            position: {
+                                start: { line: 2, col: 2, offset: 34 },
+                                end: { line: 2, col: 11, offset: 43 },
+                            },
+                        },
+                    ],
+                    listItems: [],
+                };
+            }
+            if (file.path === 'Shopping List.md') {
+                return {
+                    headings: [
+                        {
+                            heading: 'Food',
+                            level: 1,
+                            position: {
+                                start: { line: 0, col: 0, offset: 0 },
+                                end: { line: 0, col: 7, offset: 7 },
+                            },
+                        },
+                    ],
+                    listItems: [],
+                };
+            }
+            return null;
+        });
+
+        shoppingListFileContent = '# Food\n';
+
+        await AddMealPlanToShoppingList(mockContext);
+
+        expect(shoppingListFileContent).toContain('### Pasta x2');
+        expect(shoppingListFileContent).toContain('pasta 400 g');
+        expect(shoppingListFileContent).toContain('tomato sauce 2 cup');
+
+        // The recipe itself shouldn't be modified by scaling
+        expect(mockRecipes[0].ingredients[0].quantity).toBe(200);
+    });
+
+    test('should leave out the ingredients of leftovers', async () => {
+        mealPlanFileContent = `# Week of January 8th
+## Monday
+- [[Pasta]]
+## Tuesday
+- Leftovers: [[Pasta]]
+- [[Salad]]
+`;
+
+        const loc = (offset: number) => {
+            const before = mealPlanFileContent.slice(0, offset).split('\n');
+            return { line: before.length - 1, col: before[before.length - 1].length, offset };
+        };
+        const link = (name: string, from: number) => {
+            const start = mealPlanFileContent.indexOf(`[[${name}]]`, from);
+            return { link: name, original: `[[${name}]]`, position: { start: loc(start), end: loc(start + name.length + 4) } };
+        };
+
+        const mockMetadataCache = mockContext.app.metadataCache;
+        mockMetadataCache.getFileCache = vi.fn((file) => {
+            if (file.path === 'Meal Plan.md') {
+                return {
+                    headings: [{ heading: 'Week of January 8th', level: 1, position: { start: loc(0), end: loc(21) } }],
+                    links: [link('Pasta', 0), link('Pasta', mealPlanFileContent.indexOf('Leftovers')), link('Salad', 0)],
+                    listItems: [],
+                };
+            }
+            if (file.path === 'Shopping List.md') {
+                return {
+                    headings: [
+                        {
+                            heading: 'Food',
+                            level: 1,
+                            position: { start: { line: 0, col: 0, offset: 0 }, end: { line: 0, col: 7, offset: 7 } },
+                        },
+                    ],
+                    listItems: [],
+                };
+            }
+            return null;
+        });
+
+        shoppingListFileContent = '# Food\n';
+
+        await AddMealPlanToShoppingList(mockContext);
+
+        expect(shoppingListFileContent.match(/### Pasta/g)).toHaveLength(1);
+        expect(shoppingListFileContent).toContain('pasta 200 g');
+        expect(shoppingListFileContent).toContain('### Salad');
+    });
+
+    test('should add a section for the recipe in the by recipe layout', async () => {
+        mockRecipes[0].ingredients = [
+            { description: 'pasta', quantity: 200, unitOfMeasure: 'g', unitOfMeasureID: 'gram' },
+            { description: 'onion', quantity: 1, unitOfMeasure: null, unitOfMeasureID: null },
+        ] as Ingredient[];
+        shoppingListFileContent = '# Food\n## Week of January 8th\n\n### Salad\n\n- [ ] onion 2\n\n# Notes\nkeep me\n';
+        useShoppingListHeadings();
+
+        await AddFileToShoppingList(mockContext, mockRecipe1File);
+
+        expect(shoppingListFileContent).toBe(
+            '# Food\n## Week of January 8th\n\n### Salad\n\n- [ ] onion 2\n\n### Pasta\n\n- [ ] onion 1\n- [ ] pasta 200 g\n\n# Notes\nkeep me\n',
+        );
+    });
+
+    describe('in the aggregated layout', () => {
+        beforeEach(() => {
+            mockContext.settings.update((s) => {
+                s.shoppingListLayout = ShoppingListLayout.Aggregated;
+                return s;
+            });
+        });
+
+        test('should merge the same ingredient written in compatible units', async () => {
+            mockRecipes[0].ingredients = [
+                { description: 'butter', quantity: 2, unitOfMeasure: 'tbsp', unitOfMeasureID: 'tablespoon' },
+                { description: 'butter', quantity: 0.25, unitOfMeasure: 'cup', unitOfMeasureID: 'cup' },
+                { description: 'butter', quantity: 50, unitOfMeasure: 'g', unitOfMeasureID: 'gram' },
+            ] as Ingredient[];
+            shoppingListFileContent = '# Food\n';
+
+            await AddFileToShoppingList(mockContext, mockRecipe1File);
+
+            expect(shoppingListFileContent).toContain('- [ ] butter 6 tbsp\n');
+            expect(shoppingListFileContent).toContain('- [ ] butter 50 g\n');
+        });
+
+        test('should add up both ends of a range', async () => {
+            mockContext.settings.update((s) => {
+                s.shoppingListFormat = '{description} {quantity}-{quantity2} {unitOfMeasure}';
+                return s;
+            });
+            mockRecipes[0].ingredients = [
+                { description: 'milk', quantity: 1, quantity2: 2, unitOfMeasure: 'cups', unitOfMeasureID: 'cup' },
+                { description: 'milk', quantity: 250, quantity2: null, unitOfMeasure: 'ml', unitOfMeasureID: 'milliliter' },
+            ] as Ingredient[];
+            shoppingListFileContent = '# Food\n';
+
+            await AddFileToShoppingList(mockContext, mockRecipe1File);
+
+            expect(shoppingListFileContent).toContain('- [ ] milk 2.06-3.06 cups\n');
+        });
+
+        test('should convert to the preferred unit system', async () => {
+            mockContext.settings.update((s) => {
+                s.shoppingListUnitSystem = UnitSystem.Metric;
+                return s;
+            });
+            mockRecipes[0].ingredients = [
+                { description: 'milk', quantity: 3, unitOfMeasure: 'cups', unitOfMeasureID: 'cup' },
+                { description: 'milk', quantity: 2, unitOfMeasure: 'cups', unitOfMeasureID: 'cup' },
+            ] as Ingredient[];
+            shoppingListFileContent = '# Food\n';
+
+            await AddFileToShoppingList(mockContext, mockRecipe1File);
+
+            expect(shoppingListFileContent).toContain('- [ ] milk 1.18 l\n');
+        });
+
+        test('should group ingredients under category headings in store order', async () => {
+            mockContext.settings.update((s) => {
+                s.groupShoppingListByCategory = true;
+                s.shoppingListCategoryOrder = ['Produce', 'Dairy & Eggs', 'Pantry'];
+                return s;
+            });
+            mockRecipes[0].ingredients = [
+                { description: 'pasta', quantity: 200, unitOfMeasure: 'g' },
+                { description: 'milk', quantity: 1, unitOfMeasure: 'cup' },
+                { description: 'onion', quantity: 2, unitOfMeasure: '' },
+                { description: 'garlic', quantity: 3, unitOfMeasure: 'cloves' },
+            ] as Ingredient[];
+            shoppingListFileContent = '# Food\n';
+
+            await AddFileToShoppingList(mockContext, mockRecipe1File);
+
+            expect(shoppingListFileContent).toBe(
+                '# Food\n' +
+                    '\n' +
+                    '## Produce\n\n' +
+                    '- [ ] garlic 3 cloves\n' +
+                    '- [ ] onion 2\n' +
+                    '\n' +
+                    '## Dairy & Eggs\n\n' +
+                    '- [ ] milk 1 cup\n' +
+                    '\n' +
+                    '## Pantry\n\n' +
+                    '- [ ] pasta 200 g\n',
+            );
+        });
+
+        test('should subtract the pantry from the ingredients added', async () => {
+            const pantryFile = { path: 'Pantry.md', basename: 'Pantry' };
+            const vault = mockContext.app.vault as any;
+            const getFileByPath = vault.getFileByPath;
+            vault.getFileByPath = vi.fn((path) => (path === 'Pantry.md' ? pantryFile : getFileByPath(path)));
+            const read = vault.read;
+            vault.read = vi.fn(async (file) => (file.path === 'Pantry.md' ? '# Pantry\n- 150g pasta\n- tomato sauce\n' : read(file)));
+            shoppingListFileContent = '# Food\n';
+
+            await AddFileToShoppingList(mockContext, mockRecipe1File);
+
+            // The tomato sauce in the pantry has no quantity, so it can't be known to cover a cup
+            expect(shoppingListFileContent).toBe('# Food\n\n- [ ] pasta 50 g\n- [ ] tomato sauce 1 cup\n');
+        });
+
+        test('should keep headings nested under the Food heading', async () => {
+            shoppingListFileContent = '# Food\n## Old\n- [ ] old item\n# Notes\nkeep me\n';
+            useShoppingListHeadings();
+
+            await AddFileToShoppingList(mockContext, mockRecipe1File);
+
+            expect(shoppingListFileContent).toBe(
+                '# Food\n\n- [ ] pasta 200 g\n- [ ] tomato sauce 1 cup\n\n## Old\n- [ ] old item\n# Notes\nkeep me\n',
+            );
+        });
+
+        test('should merge into a list grouped by category without flattening it', async () => {
+            mockContext.settings.update((s) => {
+                s.groupShoppingListByCategory = true;
+                s.shoppingListCategoryOrder = ['Produce', 'Dairy & Eggs', 'Pantry'];
+                return s;
+            });
+            mockRecipes[0].ingredients = [
+                { description: 'pasta', quantity: 200, unitOfMeasure: 'g', unitOfMeasureID: 'gram' },
+                { description: 'onion', quantity: 1, unitOfMeasure: null, unitOfMeasureID: null },
+                { description: 'garlic', quantity: 2, unitOfMeasure: 'cloves' },
+                { description: 'milk', quantity: 1, unitOfMeasure: 'cup', unitOfMeasureID: 'cup' },
+            ] as Ingredient[];
+            shoppingListFileContent =
+                '# Food\n' +
+                '\n' +
+                '## Produce\n\n' +
+                '- [x] garlic 1 clove\n' +
+                '- [ ] onion 2 (Salad)\n' +
+                '\n' +
+                '## Pantry\n\n' +
+                '- [ ] pasta 100 g (Salad)\n' +
+                '# Notes\n';
+            useShoppingListHeadings();
+
+            await AddFileToShoppingList(mockContext, mockRecipe1File);
+
+            expect(shoppingListFileContent).toBe(
+                '# Food\n' +
+                    '\n' +
+                    '## Produce\n\n' +
+                    '- [x] garlic 1 clove\n' +
+                    '- [ ] onion 3 (Salad, Pasta)\n' +
+                    '- [ ] garlic 2 cloves\n' +
+                    '\n' +
+                    '## Pantry\n\n' +
+                    '- [ ] pasta 300 g (Salad, Pasta)\n' +
+                    '\n' +
+                    '## Dairy & Eggs\n\n' +
+                    '- [ ] milk 1 cup\n' +
+                    '# Notes\n',
+            );
+        });
+    });
+
+    /**
+     * Point the metadata cache at the headings of the shopping list's content
+     */
+    function useShoppingListHeadings() {
+        const headings = [...shoppingListFileContent.matchAll(/^(#+) (.*)$/gm)].map((m) => ({
+            heading: m[2],
+            level: m[1].length,
+            position: { start: { offset: m.index }, end: { offset: m.index + m[0].length } },
+        }));
+        mockContext.app.metadataCache.getFileCache = vi.fn((file) => {
+            return file.path === 'Shopping List.md' ? { headings, listItems: [] } : null;
+        }) as any;
+    }
 });
 
 describe('Multi-week shopping list', () => {
@@ -715,6 +1015,7 @@ describe('Multi-week shopping list', () => {
         mockContext = {
             settings: writable(settings),
             recipes: writable(mockRecipes),
+            history: writable(new Map()),
             app: {
                 vault: mockVault,
                 metadataCache: mockMetadataCache,
@@ -723,7 +1024,8 @@ describe('Multi-week shopping list', () => {
             ingredients: {} as any,
             getRecipeFolder: vi.fn(),
             isInRecipeFolder: vi.fn(),
-            loadRecipes: vi.fn(),
+            recipeIndex: {} as any,
+            loadHistory: vi.fn(),
             debugMode: vi.fn().mockReturnValue(false),
         };
     });
@@ -1013,4 +1315,162 @@ describe('Multi-week shopping list', () => {
         const quantity200Matches = shoppingListFileContent.match(/200/g);
         expect(quantity200Matches).toHaveLength(2);
     });
+
+    /**
+     * Meal plan with Pasta in both weeks and Salad in the second week
+     */
+    async function setupTwoWeekPlan() {
+        mealPlanFileContent = `# Week of January 8th
+## Monday
+- [[Pasta]]
+
+# Week of January 15th
+## Tuesday
+- [[Pasta]]
+- [[Salad]]
+`;
+
+        mockContext.app.metadataCache.getFileCache = vi.fn((file) => {
+            if (file.path === 'Meal Plan.md') {
+                return {
+                    headings: [
+                        {
+                            heading: 'Week of January 8th',
+                            level: 1,
+                            position: {
+                                start: { line: 0, col: 0, offset: 0 },
+                                end: { line: 0, col: 21, offset: 21 },
+                            },
+                        },
+                        {
+                            heading: 'Week of January 15th',
+                            level: 1,
+                            position: {
+                                start: { line: 4, col: 0, offset: 45 },
+                                end: { line: 4, col: 22, offset: 67 },
+                            },
+                        },
+                    ],
+                    links: [
+                        {
+                            link: 'Pasta',
+                            original: '[[Pasta]]',
+                            position: {
+                                start: { line: 2, col: 2, offset: 34 },
+                                end: { line: 2, col: 11, offset: 43 },
+                            },
+                        },
+                        {
+                            link: 'Pasta',
+                            original: '[[Pasta]]',
+                            position: {
+                                start: { line: 6, col: 2, offset: 81 },
+                                end: { line: 6, col: 11, offset: 90 },
+                            },
+                        },
+                        {
+                            link: 'Salad',
+                            original: '[[Salad]]',
+                            position: {
+                                start: { line: 7, col: 2, offset: 93 },
+                                end: { line: 7, col: 11, offset: 102 },
+                            },
+                        },
+                    ],
+                    listItems: [],
+                };
+            }
+            if (file.path === 'Shopping List.md') {
+                return {
+                    headings: [
+                        {
+                            heading: 'Food',
+                            level: 1,
+                            position: {
+                                start: { line: 0, col: 0, offset: 0 },
+                                end: { line: 0, col: 7, offset: 7 },
+                            },
+                        },
+                    ],
+                    listItems: [],
+                };
+            }
+            return null;
+        });
+
+        // Both recipes use tomatoes so they get merged
+        mockRecipes[0].ingredients.push({ description: 'tomatoes', quantity: 3, unitOfMeasure: '' } as Ingredient);
+        shoppingListFileContent = '# Food\n';
+
+        const mealPlanFile = mockContext.app.vault.getFileByPath('Meal Plan.md') as any;
+        const weeks = await extractWeeksFromMealPlan(mockContext, mealPlanFile, 0);
+        return { mealPlanFile, weeks };
+    }
+
+    test('should merge ingredients within each week in the by week layout', async () => {
+        mockContext.settings.update((s) => {
+            s.shoppingListLayout = ShoppingListLayout.ByWeek;
+            return s;
+        });
+        const { mealPlanFile, weeks } = await setupTwoWeekPlan();
+
+        await processSelectedWeeks(mockContext, mealPlanFile, weeks);
+
+        expect(shoppingListFileContent).toContain('## Week of January 8th\n\n- [ ] pasta 200 g (Pasta)\n');
+        expect(shoppingListFileContent).toContain('## Week of January 15th');
+        expect(shoppingListFileContent).toContain('- [ ] tomatoes 5 (Pasta, Salad)\n');
+        expect(shoppingListFileContent).not.toContain('### ');
+        expect(shoppingListFileContent.match(/pasta 200 g/g)).toHaveLength(2);
+    });
+
+    test('should merge ingredients across every week in the aggregated layout', async () => {
+        mockContext.settings.update((s) => {
+            s.shoppingListLayout = ShoppingListLayout.Aggregated;
+            return s;
+        });
+        const { mealPlanFile, weeks } = await setupTwoWeekPlan();
+
+        await processSelectedWeeks(mockContext, mealPlanFile, weeks);
+
+        expect(shoppingListFileContent).toBe(
+            '# Food\n' +
+                '\n' +
+                '- [ ] lettuce 1 head (Salad)\n' +
+                '- [ ] pasta 400 g (Pasta)\n' +
+                '- [ ] tomato sauce 2 cup (Pasta)\n' +
+                '- [ ] tomatoes 8 (Pasta, Salad)\n',
+        );
+    });
+
+    test('should keep the ingredient groups of each recipe in the by recipe layout', async () => {
+        const { mealPlanFile, weeks } = await setupTwoWeekPlan();
+        mockRecipes[0].ingredients = [
+            { description: 'pasta', quantity: 200, unitOfMeasure: 'g', group: null },
+            { description: 'sugar', quantity: 1, unitOfMeasure: 'tsp', group: 'Sauce' },
+            { description: 'sugar', quantity: 2, unitOfMeasure: 'tsp', group: 'Topping' },
+        ] as Ingredient[];
+
+        await processSelectedWeeks(mockContext, mealPlanFile, [weeks[0]]);
+
+        expect(shoppingListFileContent).toContain(
+            '### Pasta\n\n- [ ] pasta 200 g\n\n#### Sauce\n\n- [ ] sugar 1 tsp\n\n#### Topping\n\n- [ ] sugar 2 tsp\n',
+        );
+    });
+
+    test('should merge an ingredient from two groups without either group in the aggregated layout', async () => {
+        mockContext.settings.update((s) => {
+            s.shoppingListLayout = ShoppingListLayout.Aggregated;
+            s.shoppingListFormat = '{description} {quantity} {unitOfMeasure} {group}';
+            return s;
+        });
+        const { mealPlanFile, weeks } = await setupTwoWeekPlan();
+        mockRecipes[0].ingredients = [
+            { description: 'sugar', quantity: 1, unitOfMeasure: 'tsp', group: 'Sauce' },
+            { description: 'sugar', quantity: 2, unitOfMeasure: 'tsp', group: 'Topping' },
+        ] as Ingredient[];
+
+        await processSelectedWeeks(mockContext, mealPlanFile, [weeks[0]]);
+
+        expect(shoppingListFileContent).toContain('- [ ] sugar 3 tsp (Pasta)\n');
+    });
 });
@@ -0,0 +1,56 @@
+import { describe, expect, test } from 'vitest';
+import { groupBySlot, parseSlotPrefix, slotAtOffset } from '../meal_plan/slots.ts';
+
+const slots = ['Breakfast', 'Lunch', 'Dinner'];
+
+test('parseSlotPrefix', () => {
+    expect(parseSlotPrefix('Dinner: [[Curry]] x2', slots)).toStrictEqual({ slot: 'Dinner', text: '[[Curry]] x2' });
+    expect(parseSlotPrefix(' breakfast:[[Porridge]]', slots)).toStrictEqual({ slot: 'Breakfast', text: '[[Porridge]]' });
+    expect(parseSlotPrefix('Note: eating out', slots)).toStrictEqual({ slot: null, text: 'Note: eating out' });
+});
+
+describe('slotAtOffset', () => {
+    test('reads the prefix of a table entry', () => {
+        const content = '| January 8th |  | Lunch: [[Soup]]<br>[[Cake]]<br>Dinner: [[Curry]] |';
+
+        expect(slotAtOffset(content, content.indexOf('[[Soup]]'), slots)).toBe('Lunch');
+        expect(slotAtOffset(content, content.indexOf('[[Cake]]'), slots)).toBeNull();
+        expect(slotAtOffset(content, content.indexOf('[[Curry]]'), slots)).toBe('Dinner');
+    });
+
+    test('reads the slot heading above a list item', () => {
+        const content = `# Week of January 8th
+## Monday
+- [[Cake]]
+### Dinner
+- [[Curry]]
+## Tuesday
+- [[Soup]]
+`;
+
+        expect(slotAtOffset(content, content.indexOf('[[Cake]]'), slots)).toBeNull();
+        expect(slotAtOffset(content, content.indexOf('[[Curry]]'), slots)).toBe('Dinner');
+        expect(slotAtOffset(content, content.indexOf('[[Soup]]'), slots)).toBeNull();
+    });
+});
+
+test('groupBySlot', () => {
+    const items = [
+        { name: 'Curry', slot: 'Dinner' },
+        { name: 'Porridge', slot: 'Breakfast' },
+        { name: 'Eating out' },
+        { name: 'Toast', slot: 'Breakfast' },
+    ];
+
+    expect(groupBySlot(items, slots)).toStrictEqual([
+        { slot: null, items: [{ name: 'Eating out' }] },
+        {
+            slot: 'Breakfast',
+            items: [
+                { name: 'Porridge', slot: 'Breakfast' },
+                { name: 'Toast', slot: 'Breakfast' },
+            ],
+        },
+        { slot: 'Dinner', items: [{ name: 'Curry', slot: 'Dinner' }] },
+    ]);
+});
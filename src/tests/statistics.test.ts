@@ -0,0 +1,67 @@
+import moment from 'moment';
+import { expect, test } from 'vitest';
+import type { CalendarItem } from '../meal_plan/calendar_data.ts';
+import { parseNutrition } from '../meal_plan/nutrition.ts';
+import { BuildMealStatistics } from '../meal_plan/statistics.ts';
+import { Recipe } from '../recipe/recipe.ts';
+import type { Ingredient } from '../types.ts';
+
+function recipe(name: string, ingredients: string[], cuisine: string | null, tags: string[], calories: number | null = null): Recipe {
+    const r = new Recipe({ path: `Meals/${name}.md`, basename: name } as any);
+    r.ingredients = ingredients.map((description) => {
+        return { description, quantity: 1, unitOfMeasure: '' } as Ingredient;
+    });
+    r.cuisine = cuisine;
+    r.tags = tags;
+    r.nutrition = calories !== null ? parseNutrition({ calories_kcal: calories }) : null;
+    return r;
+}
+
+test('BuildMealStatistics', () => {
+    const recipes = [
+        recipe('Curry', ['chicken', 'onion', 'salt', 'onion'], 'Indian', ['Spicy'], 600),
+        recipe('Dal', ['lentils', 'onion'], 'Indian', ['vegetarian', 'spicy']),
+        recipe('Lasagne', ['beef', 'pasta'], 'Italian', []),
+    ];
+    const dailyItems = new Map<string, CalendarItem[]>([
+        ['2023-12-31', [{ name: 'Lasagne', isRecipe: true }]],
+        ['2024-01-08', [{ name: 'Dinners/Curry', isRecipe: true }]],
+        [
+            '2024-01-09',
+            [
+                { name: 'dal', isRecipe: true },
+                { name: 'Eating out', isRecipe: false },
+            ],
+        ],
+        ['2024-01-10', [{ name: 'Eating out', isRecipe: false }]],
+        ['2024-01-15', [{ name: 'Curry', isRecipe: true, multiplier: 2 }]],
+        ['2024-01-16', [{ name: 'Soup', isRecipe: true }]],
+    ]);
+    const weekStarts = [moment('2024-01-14'), moment('2023-12-31'), moment('2024-01-07')];
+
+    const isStaple = (description: string) => description === 'salt';
+
+    const statistics = BuildMealStatistics(dailyItems, recipes, weekStarts, moment('2024-01-07'), moment('2024-01-20'), isStaple);
+
+    expect(statistics.mealCount).toBe(4);
+    expect(statistics.recipes).toStrictEqual([
+        { name: 'Curry', count: 2 },
+        { name: 'Dal', count: 1 },
+        { name: 'Soup', count: 1 },
+    ]);
+    expect(statistics.cuisines).toStrictEqual([{ name: 'Indian', count: 3 }]);
+    expect(statistics.tags).toStrictEqual([
+        { name: 'spicy', count: 3 },
+        { name: 'vegetarian', count: 1 },
+    ]);
+    expect(statistics.eatingOutDays).toBe(2);
+    expect(statistics.ingredients).toStrictEqual([
+        { name: 'onion', count: 3 },
+        { name: 'chicken', count: 2 },
+        { name: 'lentils', count: 1 },
+    ]);
+    expect(statistics.weeklyNutrition.map((w) => [w.weekStart.format('YYYY-MM-DD'), w.nutrition?.calories ?? null])).toStrictEqual([
+        ['2024-01-07', 600],
+        ['2024-01-14', 600],
+    ]);
+});
@@ -0,0 +1,108 @@
+import { describe, expect, test } from 'vitest';
+import { UnitSystem } from '../settings/settings.ts';
+import type { Ingredient } from '../types.ts';
+import { areUnitsCompatible, convertIngredient, convertQuantity, normalizeIngredient } from '../utils/units.ts';
+
+function ingredient(quantity: number | null, unitOfMeasureID: string | null, unitOfMeasure: string | null): Ingredient {
+    return {
+        description: 'butter',
+        quantity,
+        quantity2: null,
+        unitOfMeasureID,
+        unitOfMeasure,
+        isGroupHeader: false,
+    } as Ingredient;
+}
+
+describe('convertQuantity', () => {
+    test('converts between volume units', () => {
+        expect(convertQuantity(0.25, 'cup', 'tablespoon')).toBeCloseTo(4);
+        expect(convertQuantity(1, 'liter', 'milliliter')).toBe(1000);
+    });
+
+    test('converts between metric and imperial mass units', () => {
+        expect(convertQuantity(1, 'pound', 'gram')).toBeCloseTo(453.592);
+    });
+
+    test('returns null for incompatible or unknown units', () => {
+        expect(convertQuantity(1, 'cup', 'gram')).toBeNull();
+        expect(convertQuantity(1, 'pinch', 'teaspoon')).toBeNull();
+    });
+});
+
+describe('areUnitsCompatible', () => {
+    test('volume units are compatible with each other', () => {
+        expect(areUnitsCompatible(ingredient(2, 'tablespoon', 'tbsp'), ingredient(0.25, 'cup', 'cup'))).toBe(true);
+    });
+
+    test('volume and mass units are not compatible', () => {
+        expect(areUnitsCompatible(ingredient(2, 'tablespoon', 'tbsp'), ingredient(100, 'gram', 'g'))).toBe(false);
+    });
+
+    test('unknown units are only compatible when written the same', () => {
+        expect(areUnitsCompatible(ingredient(1, null, 'head'), ingredient(2, null, 'head'))).toBe(true);
+        expect(areUnitsCompatible(ingredient(1, null, 'head'), ingredient(2, 'gram', 'g'))).toBe(false);
+    });
+});
+
+describe('convertIngredient', () => {
+    test('converts the quantity and unit', () => {
+        const converted = convertIngredient(ingredient(0.25, 'cup', 'cup'), 'tablespoon');
+
+        expect(converted.quantity).toBe(4);
+        expect(converted.unitOfMeasureID).toBe('tablespoon');
+        expect(converted.unitOfMeasure).toBe('tbsp');
+    });
+
+    test('leaves ingredients with unknown units unchanged', () => {
+        const original = ingredient(1, null, 'head');
+
+        expect(convertIngredient(original, 'gram')).toStrictEqual(original);
+    });
+});
+
+describe('normalizeIngredient', () => {
+    test('does nothing for the original unit system', () => {
+        const original = ingredient(6, 'tablespoon', 'tbsp');
+
+        expect(normalizeIngredient(original, UnitSystem.Original)).toStrictEqual(original);
+    });
+
+    test('picks the largest readable metric unit', () => {
+        expect(normalizeIngredient(ingredient(2, 'pound', 'lb'), UnitSystem.Metric)).toMatchObject({
+            quantity: 907.18,
+            unitOfMeasure: 'g',
+        });
+        expect(normalizeIngredient(ingredient(3, 'pound', 'lb'), UnitSystem.Metric)).toMatchObject({
+            quantity: 1.36,
+            unitOfMeasure: 'kg',
+        });
+        expect(normalizeIngredient(ingredient(2, 'tablespoon', 'tbsp'), UnitSystem.Metric)).toMatchObject({
+            quantity: 29.57,
+            unitOfMeasure: 'ml',
+        });
+    });
+
+    test('picks the largest readable imperial unit', () => {
+        expect(normalizeIngredient(ingredient(500, 'milliliter', 'ml'), UnitSystem.Imperial)).toMatchObject({
+            quantity: 2.11,
+            unitOfMeasure: 'cup',
+        });
+        expect(normalizeIngredient(ingredient(10, 'milliliter', 'ml'), UnitSystem.Imperial)).toMatchObject({
+            quantity: 2.03,
+            unitOfMeasure: 'tsp',
+        });
+        expect(normalizeIngredient(ingredient(250, 'gram', 'g'), UnitSystem.Imperial)).toMatchObject({
+            quantity: 8.82,
+            unitOfMeasure: 'oz',
+        });
+    });
+
+    test('converts both ends of a range', () => {
+        expect(normalizeIngredient({ ...ingredient(1, 'cup', 'cup'), quantity2: 2 }, UnitSystem.Metric)).toMatchObject({
+            quantity: 236.59,
+            quantity2: 473.18,
+            unitOfMeasure: 'ml',
+        });
+    });
+});
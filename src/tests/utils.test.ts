@@ -6,6 +6,7 @@ import {
     BehaviourValidationError,
     GetCurrentWeek,
     GetWeekDateFromMoment,
+    isIgnoredIngredient,
     validateIgnoreBehaviour,
     wildcardToRegex,
 } from '../utils/utils.ts';
@@ -101,6 +102,29 @@ test('validateIgnoreBehaviour_Wildcard', () => {
     }
 });
 
+test('isIgnoredIngredient', () => {
+    interface Test {
+        description: string;
+        patterns: string[];
+        behaviour: ShoppingListIgnoreBehaviour;
+        expected: boolean;
+    }
+
+    const tests: Test[] = [
+        { description: 'Salt', patterns: ['salt'], behaviour: ShoppingListIgnoreBehaviour.Exact, expected: true },
+        { description: 'sea salt', patterns: ['salt'], behaviour: ShoppingListIgnoreBehaviour.Exact, expected: false },
+        { description: 'olive oil', patterns: ['oil'], behaviour: ShoppingListIgnoreBehaviour.Partial, expected: true },
+        { description: 'sea salt', patterns: ['*salt'], behaviour: ShoppingListIgnoreBehaviour.Wildcard, expected: true },
+        { description: 'salted nuts', patterns: ['*salt'], behaviour: ShoppingListIgnoreBehaviour.Wildcard, expected: false },
+        { description: 'red pepper', patterns: ['^.{0,3} pepper'], behaviour: ShoppingListIgnoreBehaviour.Regex, expected: true },
+        { description: 'black pepper', patterns: ['^.{0,3} pepper'], behaviour: ShoppingListIgnoreBehaviour.Regex, expected: false },
+    ];
+
+    for (const test of tests) {
+        expect(isIgnoredIngredient(test.description, test.patterns, test.behaviour)).toBe(test.expected);
+    }
+});
+
 describe('GetWeekDateFromMoment', () => {
     test('returns correct week start for Sunday when startOfWeek is Monday', () => {
         // Sunday January 25th, 2026 - should return Monday January 19th (the Monday of that week)
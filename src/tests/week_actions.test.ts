@@ -0,0 +1,165 @@
+import moment from 'moment';
+import { describe, expect, test } from 'vitest';
+import { clearWeekInContent, copyWeekInContent, readWeekEntries, swapWeeksInContent } from '../meal_plan/week_actions.ts';
+
+const slots = ['Lunch', 'Dinner'];
+
+const list = `# Week of January 8th
+## Monday
+- Eating out
+- [[Curry]] x2
+## Tuesday
+### Lunch
+- [[Soup]]
+### Dinner
+- [[Chilli]]
+## Wednesday
+## Thursday
+## Friday
+## Saturday
+## Sunday
+# Week of January 15th
+## Monday
+- [[Pasta]]
+## Tuesday
+## Wednesday
+## Thursday
+## Friday
+## Saturday
+## Sunday
+`;
+
+const table = `| Week Start | Monday | Tuesday | Wednesday | Thursday | Friday | Saturday | Sunday |
+|---|---|---|---|---|---|---|---|
+| January 8th | Eating out<br>Dinner: [[Curry]] x2 | [[Soup]] | | | | | |
+| January 15th | [[Pasta]] | | | | | | |
+`;
+
+describe('readWeekEntries', () => {
+    test('reads the entries of each day in the list format', () => {
+        const days = readWeekEntries(list, 'January 8th', slots);
+
+        expect(days.get('Monday')).toEqual([
+            { entry: 'Eating out', slot: null },
+            { entry: '[[Curry]] x2', slot: null },
+        ]);
+        expect(days.get('Tuesday')).toEqual([
+            { entry: '[[Soup]]', slot: 'Lunch' },
+            { entry: '[[Chilli]]', slot: 'Dinner' },
+        ]);
+        expect(days.has('Wednesday')).toBe(false);
+    });
+
+    test('reads the entries of each day in the table format', () => {
+        const days = readWeekEntries(table, 'January 8th', slots);
+
+        expect(days.get('Monday')).toEqual([
+            { entry: 'Eating out', slot: null },
+            { entry: '[[Curry]] x2', slot: 'Dinner' },
+        ]);
+        expect(days.get('Tuesday')).toEqual([{ entry: '[[Soup]]', slot: null }]);
+    });
+
+    test('keeps nested lines with their entry and skips items under unknown headings', () => {
+        const content =
+            '# Week of January 8th\n## Monday\n- [[Curry]]\n    - Double the rice\nNote\n### Snack\n- Apple\n### Dinner\n- [[Chilli]]\n';
+        const days = readWeekEntries(content, 'January 8th', slots);
+
+        expect(days.get('Monday')).toEqual([
+            { entry: '[[Curry]]\n    - Double the rice', slot: null },
+            { entry: '[[Chilli]]', slot: 'Dinner' },
+        ]);
+    });
+
+    test('is empty for a week that is not in the note', () => {
+        expect(readWeekEntries(list, 'March 4th', slots).size).toBe(0);
+    });
+});
+
+describe('clearWeekInContent', () => {
+    test('keeps the week and day headings in the list format', () => {
+        const result = clearWeekInContent(list, 'January 8th', slots);
+
+        expect(result).toContain(
+            '# Week of January 8th\n## Monday\n## Tuesday\n## Wednesday\n## Thursday\n## Friday\n## Saturday\n## Sunday\n# Week of January 15th\n## Monday\n- [[Pasta]]',
+        );
+    });
+
+    test('empties the day cells in the table format', () => {
+        const result = clearWeekInContent(table, 'January 8th');
+
+        expect(result).toContain('| January 8th |  |  |  |  |  |  |  |');
+        expect(result).toContain('| January 15th | [[Pasta]] |');
+    });
+
+    test('leaves notes, unknown headings and their items in place', () => {
+        const content = `# Week of January 8th
+Busy week, keep it simple
+## Monday
+- [[Curry]] x2
+    - Double the rice
+Shopping on the way home
+### Snack
+- Apple
+## Tuesday
+### Dinner
+- [[Chilli]]
+### Lunch
+- [[Soup]]
+Eat at work
+# Week of January 15th
+`;
+        const result = clearWeekInContent(content, 'January 8th', slots);
+
+        expect(result).toBe(`# Week of January 8th
+Busy week, keep it simple
+## Monday
+Shopping on the way home
+### Snack
+- Apple
+## Tuesday
+### Lunch
+Eat at work
+# Week of January 15th
+`);
+    });
+});
+
+describe('copyWeekInContent', () => {
+    test('adds the entries after the ones already in the target week', () => {
+        const result = copyWeekInContent(list, moment('2024-01-08'), moment('2024-01-15'), 1, slots);
+
+        expect(result).toContain(
+            '# Week of January 15th\n## Monday\n- Eating out\n- [[Curry]] x2\n- [[Pasta]]\n## Tuesday\n### Lunch\n- [[Soup]]\n### Dinner\n- [[Chilli]]',
+        );
+        expect(result).toContain('# Week of January 8th\n## Monday\n- Eating out\n- [[Curry]] x2');
+    });
+
+    test('adds the target week when it is not in the note yet', () => {
+        const result = copyWeekInContent(table, moment('2024-01-08'), moment('2024-01-22'), 1, slots);
+
+        expect(result).toContain('| January 22nd | Eating out<br>Dinner: [[Curry]] x2 | [[Soup]] |');
+    });
+});
+
+describe('swapWeeksInContent', () => {
+    test('swaps two weeks in the list format', () => {
+        const result = swapWeeksInContent(list, moment('2024-01-08'), moment('2024-01-15'), 1, slots);
+
+        expect(result).toContain('# Week of January 8th\n## Monday\n- [[Pasta]]\n## Tuesday\n## Wednesday');
+        expect(result).toContain(
+            '# Week of January 15th\n## Monday\n- Eating out\n- [[Curry]] x2\n## Tuesday\n### Lunch\n- [[Soup]]\n### Dinner\n- [[Chilli]]',
+        );
+    });
+
+    test('swaps two weeks in the table format', () => {
+        const result = swapWeeksInContent(table, moment('2024-01-08'), moment('2024-01-15'), 1, slots);
+
+        expect(result).toContain('| January 8th | [[Pasta]] |  |');
+        expect(result).toContain('| January 15th | Eating out<br>Dinner: [[Curry]] x2 | [[Soup]] |');
+    });
+
+    test('leaves the content alone when both weeks are the same', () => {
+        expect(swapWeeksInContent(list, moment('2024-01-08'), moment('2024-01-10'), 1, slots)).toBe(list);
+    });
+});
@@ -6,7 +6,11 @@ export interface AltIngredient {
     altUnitOfMeasureID: string | null;
 }
 
-export type Ingredient = TIngredient & AltIngredient;
+export interface IngredientGroup {
+    group: string | null; // The group header the ingredient is listed under, e.g. `Sauce` for `## Sauce` or `For the sauce:`
+}
+
+export type Ingredient = TIngredient & AltIngredient & IngredientGroup;
 
 export type ParseErrors =
     | 'NO_INGREDIENT'
@@ -14,4 +18,5 @@ export type ParseErrors =
     | 'INGREDIENT_EMPTY'
     | 'NOT_RECIPE_MD_FORMAT'
     | 'INGREDIENT_SECTION_DOESNT_END'
-    | 'MISSING_INGREDIENT_HEADING';
+    | 'MISSING_INGREDIENT_HEADING'
+    | 'MISSING_DIRECTIONS_HEADING';
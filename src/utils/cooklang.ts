@@ -0,0 +1,124 @@
+/**
+ * An ingredient written inline in a Cooklang step, e.g. `@bacon strips{1%kg}(diced)`
+ */
+export interface CooklangIngredient {
+    name: string;
+    quantity: string; // Empty when the recipe doesn't give one
+    unit: string;
+    note: string; // The preparation in (...) after the ingredient
+    section: string | null; // The section of the recipe the ingredient is used in, e.g. `Dough` for `= Dough`
+}
+
+export interface CooklangRecipe {
+    ingredients: CooklangIngredient[];
+    cookware: string[];
+    steps: string[]; // The text of each step, with the markup replaced by the names and times it stands for
+}
+
+// @name{quantity%unit}(note), #name{} and ~name{quantity%unit}, names of more than one word need the braces
+// The name of a timer is optional
+const ingredientPattern = /@(?:([^@#~{}\n]+?)\{([^}]*)\}|([\p{L}\p{N}_]+))(?:\(([^)]*)\))?/gu;
+const cookwarePattern = /#(?:([^@#~{}\n]+?)\{([^}]*)\}|([\p{L}\p{N}_]+))/gu;
+const timerPattern = /~(?:([^@#~{}\n]*?)\{([^}]*)\}|([\p{L}\p{N}_]+))/gu;
+
+const blockComment = /\[-[\s\S]*?-\]/g;
+const lineComment = /--.*$/;
+
+/**
+ * Parse the body of a Cooklang recipe, see https://cooklang.org/docs/spec/
+ * Metadata (`>> key: value`), notes (`> ...`) and section headers (`= Dough =`) aren't steps and are skipped
+ */
+export function ParseCooklang(content: string): CooklangRecipe {
+    const recipe: CooklangRecipe = { ingredients: [], cookware: [], steps: [] };
+
+    const lines = content
+        .replace(blockComment, '')
+        .split('\n')
+        .map((l) => l.replace(lineComment, '').trim());
+
+    // Every paragraph is a step, in the section above it
+    const paragraphs: { section: string | null; lines: string[] }[] = [{ section: null, lines: [] }];
+    for (const line of lines) {
+        const section = paragraphs[paragraphs.length - 1].section;
+        if (line.startsWith('=')) {
+            paragraphs.push({ section: line.replace(/^=+|=+$/g, '').trim() || null, lines: [] });
+        } else if (line.length === 0) {
+            paragraphs.push({ section, lines: [] });
+        } else if (!line.startsWith('>')) {
+            paragraphs[paragraphs.length - 1].lines.push(line);
+        }
+    }
+
+    for (const { section, lines } of paragraphs.filter((p) => p.lines.length > 0)) {
+        const step = lines.join(' ');
+
+        for (const match of step.matchAll(ingredientPattern)) {
+            const [quantity, unit] = splitAmount(match[2] ?? '');
+            const name = ingredientName(match[1] ?? match[3]);
+
+            // Later mentions of an ingredient without an amount refer back to the first one in the section
+            if (quantity.length === 0 && recipe.ingredients.some((i) => i.name === name && i.section === section)) {
+                continue;
+            }
+            recipe.ingredients.push({ name, quantity, unit, note: (match[4] ?? '').trim(), section });
+        }
+
+        for (const match of step.matchAll(cookwarePattern)) {
+            const name = (match[1] ?? match[3]).trim();
+            if (!recipe.cookware.includes(name)) {
+                recipe.cookware.push(name);
+            }
+        }
+
+        recipe.steps.push(
+            step
+                .replace(ingredientPattern, (_, braced?: string, _amount?: string, word?: string) => ingredientName(braced ?? word ?? ''))
+                .replace(cookwarePattern, (_, braced?: string, _amount?: string, word?: string) => (braced ?? word ?? '').trim())
+                .replace(timerPattern, (_, name?: string, amount?: string, word?: string) => {
+                    if (amount === undefined) {
+                        return word ?? '';
+                    }
+                    return splitAmount(amount).join(' ').trim() || (name ?? '').trim();
+                }),
+        );
+    }
+
+    return recipe;
+}
+
+/**
+ * The ingredients of a Cooklang recipe as ingredient list lines, e.g. `- 1 kg bacon strips, diced`,
+ * so they go through the same ingredient parsing as the other formats
+ * Each section starts with a heading, which becomes the group of its ingredients
+ */
+export function GetCooklangFormatBoundedList(content: string): string[] {
+    const list: string[] = [];
+
+    let section: string | null = null;
+    for (const i of ParseCooklang(content).ingredients) {
+        if (i.section !== section && i.section !== null) {
+            list.push(`## ${i.section}`);
+        }
+        section = i.section;
+
+        const line = [i.quantity, i.unit, i.name].filter((p) => p.length > 0).join(' ');
+        list.push(`- ${line}${i.note.length > 0 ? `, ${i.note}` : ''}`);
+    }
+
+    return list;
+}
+
+/**
+ * Split `quantity%unit`, dropping the `=` that marks a quantity that doesn't scale and the `*` that marks one that does
+ */
+function splitAmount(amount: string): [string, string] {
+    const [quantity, unit = ''] = amount.split('%');
+    return [quantity.trim().replace(/^=\s*/, '').replace(/\*$/, '').trim(), unit.trim()];
+}
+
+/**
+ * The name of an ingredient without the `&` that references an earlier one, or the path of a recipe used as an ingredient
+ */
+function ingredientName(name: string): string {
+    return name.trim().replace(/^&/, '').split('/').pop()?.trim() ?? '';
+}
@@ -20,6 +20,14 @@ export async function OpenNotePath(app: App, filePath: string) {
     }
 }
 
+/**
+ * Open a note scrolled to a line
+ * @param line 0-based line of the note
+ */
+export async function OpenNoteAtLine(app: App, file: TFile, line: number) {
+    await app.workspace.getLeaf(false).openFile(file, { eState: { line } });
+}
+
 export function NoteExists(app: App, filePath: string) {
     const file = app.vault.getAbstractFileByPath(filePath);
     return file != null && file instanceof TFile;
@@ -6,11 +6,12 @@ import { ErrCtx } from './result.ts';
 
 export function GetRecipeMDFormatBoundedList(content: string): Result<string[], ParseErrors> {
     // Ingredient content is between --- & ---
-    const start = content.indexOf('---') + '---'.length;
-    if (start < 0) {
+    const rule = content.indexOf('---');
+    if (rule < 0) {
         return Err('NOT_RECIPE_MD_FORMAT');
     }
 
+    const start = rule + '---'.length;
     const end = content.indexOf('---', start);
     if (end < 0) {
         return Err('INGREDIENT_SECTION_DOESNT_END');
@@ -31,34 +32,97 @@ export function GetRecipeMDFormatBoundedList(content: string): Result<string[],
 
 const linePrefix = /^((- \[ \] )|(- ))([^[\]]*$)/;
 
+/**
+ * A line of an ingredient list that couldn't be parsed
+ */
+export interface IngredientFailure {
+    line: string;
+    error: ParseErrors;
+}
+
+/**
+ * The ingredients of a list that could be parsed, and the lines that couldn't
+ */
+export interface IngredientList {
+    ingredients: Ingredient[];
+    failures: IngredientFailure[];
+}
+
+/**
+ * Parse an ingredient list, stopping at the first line that can't be parsed
+ */
 export function GetIngredientsFromList(list: string[], advancedParsing: boolean, debug: boolean): Result<Ingredient[], ErrCtx> {
-    const rawIngredient = list.filter((i) => {
-        return linePrefix.test(i);
-    });
+    const { ingredients, failures } = ParseIngredientList(list, advancedParsing, debug);
+    if (failures.length > 0) {
+        console.error(failures[0].error);
+        return Err(new ErrCtx(failures[0].line, failures[0].error));
+    }
 
+    return Ok(ingredients);
+}
+
+/**
+ * Parse an ingredient list, collecting every line that can't be parsed instead of stopping at the first
+ * Lines that aren't ingredients, like links, are skipped without a failure
+ */
+export function ParseIngredientList(list: string[], advancedParsing: boolean, debug: boolean): IngredientList {
     if (debug) {
-        console.debug(rawIngredient);
+        console.debug(list.filter((i) => linePrefix.test(i)));
     }
 
     const ingredients: Ingredient[] = [];
+    const failures: IngredientFailure[] = [];
+    let group: string | null = null;
     for (const rawIngredient of list) {
         if (debug) {
             console.debug('Parsing ingredient, raw line: ', rawIngredient);
         }
 
+        const header = ParseGroupHeader(rawIngredient);
+        if (header !== null) {
+            group = header;
+            continue;
+        }
+
         const ingredient = ParseIngredient(rawIngredient, advancedParsing);
         if (ingredient.isOk()) {
             if (debug) {
                 console.debug('Final ingredient output', ingredient.value);
             }
-            ingredients.push(ingredient.value);
+            ingredients.push({ ...ingredient.value, group });
         } else if (ingredient.error !== 'NO_INGREDIENT') {
-            console.error(ingredient.error);
-            return Err(new ErrCtx(rawIngredient, ingredient.error));
+            failures.push({ line: rawIngredient, error: ingredient.error });
         }
     }
 
-    return Ok(ingredients);
+    return { ingredients, failures };
+}
+
+const headingLine = /^#{1,6}\s+(.*)$/;
+
+/**
+ * The name of the ingredient group a line starts, either a heading in the ingredient list (`## Sauce`)
+ * or a list item like `- For the sauce:`
+ * @returns The group name without the trailing colon, or null when the line isn't a group header
+ */
+export function ParseGroupHeader(line: string): string | null {
+    const heading = line.trim().match(headingLine);
+    if (heading !== null) {
+        return heading[1].trim() || null;
+    }
+
+    const match = line.match(linePrefix);
+    if (match === null) {
+        return null;
+    }
+
+    const content = match[4].replaceAll('*', '').trim();
+    const candidates = parseIngredient(content);
+    if (candidates.length !== 1 || !candidates[0].isGroupHeader) {
+        return null;
+    }
+
+    return content.replace(/:$/, '').trim() || null;
 }
 
 export function ParseIngredient(content: string, advancedParse: boolean): Result<Ingredient, ParseErrors> {
@@ -106,6 +170,7 @@ export function ParseIngredient(content: string, advancedParse: boolean): Result
     return Ok({
         ...tingredient,
         ...altIngredients,
+        group: null,
     });
 }
 
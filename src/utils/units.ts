@@ -0,0 +1,144 @@
+import { roundQuantity } from '../meal_plan/servings.ts';
+import { UnitSystem } from '../settings/settings.ts';
+import type { Ingredient } from '../types.ts';
+
+type Dimension = 'volume' | 'mass';
+
+interface UnitDefinition {
+    dimension: Dimension;
+    system: UnitSystem.Metric | UnitSystem.Imperial;
+    factor: number; // Amount of the base unit (millilitres or grams) in one of this unit
+    short: string; // Displayed as the unitOfMeasure after converting
+}
+
+// Keyed by the unitOfMeasureID values parse-ingredient returns
+const UNITS: Record<string, UnitDefinition> = {
+    teaspoon: { dimension: 'volume', system: UnitSystem.Imperial, factor: 4.92892, short: 'tsp' },
+    tablespoon: { dimension: 'volume', system: UnitSystem.Imperial, factor: 14.7868, short: 'tbsp' },
+    'fluid ounce': { dimension: 'volume', system: UnitSystem.Imperial, factor: 29.5735, short: 'fl oz' },
+    cup: { dimension: 'volume', system: UnitSystem.Imperial, factor: 236.588, short: 'cup' },
+    pint: { dimension: 'volume', system: UnitSystem.Imperial, factor: 473.176, short: 'pt' },
+    quart: { dimension: 'volume', system: UnitSystem.Imperial, factor: 946.353, short: 'qt' },
+    gallon: { dimension: 'volume', system: UnitSystem.Imperial, factor: 3785.41, short: 'gal' },
+    milliliter: { dimension: 'volume', system: UnitSystem.Metric, factor: 1, short: 'ml' },
+    liter: { dimension: 'volume', system: UnitSystem.Metric, factor: 1000, short: 'l' },
+    milligram: { dimension: 'mass', system: UnitSystem.Metric, factor: 0.001, short: 'mg' },
+    gram: { dimension: 'mass', system: UnitSystem.Metric, factor: 1, short: 'g' },
+    kilogram: { dimension: 'mass', system: UnitSystem.Metric, factor: 1000, short: 'kg' },
+    ounce: { dimension: 'mass', system: UnitSystem.Imperial, factor: 28.3495, short: 'oz' },
+    pound: { dimension: 'mass', system: UnitSystem.Imperial, factor: 453.592, short: 'lb' },
+};
+
+// Units to display in for each system, largest first with the smallest base amount they're used for
+const PREFERRED_UNITS: Record<UnitSystem.Metric | UnitSystem.Imperial, Record<Dimension, { id: string; minimum: number }[]>> = {
+    [UnitSystem.Metric]: {
+        volume: [
+            { id: 'liter', minimum: 1000 },
+            { id: 'milliliter', minimum: 0 },
+        ],
+        mass: [
+            { id: 'kilogram', minimum: 1000 },
+            { id: 'gram', minimum: 0 },
+        ],
+    },
+    [UnitSystem.Imperial]: {
+        volume: [
+            { id: 'cup', minimum: UNITS.cup.factor / 4 },
+            { id: 'tablespoon', minimum: UNITS.tablespoon.factor },
+            { id: 'teaspoon', minimum: 0 },
+        ],
+        mass: [
+            { id: 'pound', minimum: UNITS.pound.factor },
+            { id: 'ounce', minimum: 0 },
+        ],
+    },
+};
+
+function getUnit(unitID: string | null | undefined): UnitDefinition | null {
+    if (unitID === null || unitID === undefined) {
+        return null;
+    }
+
+    return UNITS[unitID] ?? null;
+}
+
+/**
+ * Whether two ingredients' quantities can be added together, either because they use the same unit
+ * or because both units are known and measure the same thing (volume or mass)
+ */
+export function areUnitsCompatible(left: Ingredient, right: Ingredient): boolean {
+    if (left.unitOfMeasureID === right.unitOfMeasureID && left.unitOfMeasure === right.unitOfMeasure) {
+        return true;
+    }
+
+    const leftUnit = getUnit(left.unitOfMeasureID);
+    const rightUnit = getUnit(right.unitOfMeasureID);
+    if (leftUnit === null || rightUnit === null) {
+        return left.unitOfMeasure === right.unitOfMeasure;
+    }
+
+    return leftUnit.dimension === rightUnit.dimension;
+}
+
+/**
+ * Convert a quantity between two units
+ * @returns The converted quantity, or null if either unit is unknown or they measure different things
+ */
+export function convertQuantity(quantity: number, fromUnitID: string | null, toUnitID: string | null): number | null {
+    if (fromUnitID === toUnitID) {
+        return quantity;
+    }
+
+    const from = getUnit(fromUnitID);
+    const to = getUnit(toUnitID);
+    if (from === null || to === null || from.dimension !== to.dimension) {
+        return null;
+    }
+
+    return (quantity * from.factor) / to.factor;
+}
+
+/**
+ * Returns a copy of the ingredient converted to another unit, or an unchanged copy if it can't be converted
+ */
+export function convertIngredient(ingredient: Ingredient, toUnitID: string): Ingredient {
+    const converted = structuredClone(ingredient);
+    const to = getUnit(toUnitID);
+    if (to === null || ingredient.unitOfMeasureID === toUnitID) {
+        return converted;
+    }
+
+    if (converted.quantity !== null && converted.quantity !== undefined) {
+        const quantity = convertQuantity(converted.quantity, ingredient.unitOfMeasureID, toUnitID);
+        if (quantity === null) {
+            return converted;
+        }
+        converted.quantity = roundQuantity(quantity);
+    }
+
+    if (converted.quantity2 !== null && converted.quantity2 !== undefined) {
+        const quantity2 = convertQuantity(converted.quantity2, ingredient.unitOfMeasureID, toUnitID);
+        converted.quantity2 = quantity2 !== null ? roundQuantity(quantity2) : converted.quantity2;
+    }
+
+    converted.unitOfMeasureID = toUnitID;
+    converted.unitOfMeasure = to.short;
+    return converted;
+}
+
+/**
+ * Convert an ingredient to the most readable unit of the preferred unit system
+ * Ingredients with unknown units (pinch, clove, ...) or without a quantity are left as they are
+ */
+export function normalizeIngredient(ingredient: Ingredient, unitSystem: UnitSystem): Ingredient {
+    const unit = getUnit(ingredient.unitOfMeasureID);
+    if (unitSystem === UnitSystem.Original || unit === null || ingredient.quantity === null || ingredient.quantity === undefined) {
+        return structuredClone(ingredient);
+    }
+
+    const baseQuantity = ingredient.quantity * unit.factor;
+    const candidates = PREFERRED_UNITS[unitSystem][unit.dimension];
+    const preferred = candidates.find((c) => baseQuantity >= c.minimum) ?? candidates[candidates.length - 1];
+
+    return convertIngredient(ingredient, preferred.id);
+}
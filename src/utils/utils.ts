@@ -55,6 +55,13 @@ export function wildcardToRegex(pattern: string): RegExp {
     return new RegExp(`^${escaped}$`);
 }
 
+/**
+ * Escape special regex characters in a string
+ */
+export function escapeRegExp(string: string): string {
+    return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
 export class BehaviourValidationError {
     message = '';
 
@@ -86,3 +93,30 @@ export function validateIgnoreBehaviour(
 
     return Ok(true);
 }
+
+/**
+ * Whether an ingredient matches any pattern in the list, using the same matching behaviour as the shopping list ignore list
+ */
+export function isIgnoredIngredient(description: string, patterns: string[], behaviour: ShoppingListIgnoreBehaviour): boolean {
+    const desc = description.toLowerCase();
+
+    return patterns.some((patternRaw) => {
+        const pattern = patternRaw.toLowerCase();
+
+        switch (behaviour) {
+            case ShoppingListIgnoreBehaviour.Exact:
+                return desc === pattern;
+
+            case ShoppingListIgnoreBehaviour.Partial:
+                return desc.includes(pattern);
+
+            case ShoppingListIgnoreBehaviour.Wildcard:
+                return wildcardToRegex(pattern).test(desc);
+
+            case ShoppingListIgnoreBehaviour.Regex:
+                return new RegExp(pattern).test(desc);
+            default:
+                return false;
+        }
+    });
+}